@@ -0,0 +1,54 @@
+/**
+ * YouTube Source — Batch Runner
+ *
+ * Runs one async task per content ID with bounded concurrency, collecting
+ * a success or failure for each instead of failing the whole batch.
+ * Duplicate IDs are resolved once; an aborted batch stops starting new
+ * tasks and reports the remaining IDs as cancelled.
+ */
+
+export type BatchOutcome<T> =
+  | { contentId: string; ok: true; value: T }
+  | { contentId: string; ok: false; error: unknown; cancelled?: boolean };
+
+export interface BatchRunOptions<T> {
+  concurrency: number;
+  signal?: AbortSignal;
+  /** Called as soon as each unique ID settles */
+  onResult?(outcome: BatchOutcome<T>): void;
+}
+
+/** Outcomes are returned in the order of `contentIds`, duplicates included. */
+export async function runBatch<T>(
+  contentIds: string[],
+  task: (contentId: string) => Promise<T>,
+  options: BatchRunOptions<T>,
+): Promise<BatchOutcome<T>[]> {
+  const unique = Array.from(new Set(contentIds));
+  const outcomes = new Map<string, BatchOutcome<T>>();
+  let next = 0;
+
+  const settle = (outcome: BatchOutcome<T>) => {
+    outcomes.set(outcome.contentId, outcome);
+    try { options.onResult?.(outcome); } catch { /* ignore listener errors */ }
+  };
+
+  const worker = async () => {
+    while (next < unique.length) {
+      const contentId = unique[next++];
+      if (options.signal?.aborted) {
+        settle({ contentId, ok: false, error: new Error('Batch cancelled'), cancelled: true });
+        continue;
+      }
+      try {
+        settle({ contentId, ok: true, value: await task(contentId) });
+      } catch (error) {
+        settle({ contentId, ok: false, error });
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, unique.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return contentIds.map((contentId) => outcomes.get(contentId)!);
+}
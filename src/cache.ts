@@ -0,0 +1,218 @@
+/**
+ * YouTube Source — Persistent Cache
+ *
+ * A bounded LRU cache backed by the host file system. Entries live in a
+ * fixed pool of slot files (one JSON file each, with an absolute expiry
+ * time); a small index file maps keys to slots and keeps the recency order
+ * so the bound survives app restarts.
+ *
+ * The host has no delete API, so files are never removed: slots are reused
+ * for new keys and evicted ones are truncated, which keeps the number of
+ * files in the cache directory at `maxEntries` plus the index.
+ */
+
+import type { SourceHost } from '../types/host';
+
+interface StoredEntry<T> {
+  /** Key the slot was written for, so a slot reused by another key is never misread */
+  k: string;
+  /** Cached value */
+  v: T;
+  /** Expiry time (epoch ms) */
+  e: number;
+}
+
+interface IndexEntry {
+  /** Expiry time (epoch ms) */
+  e: number;
+  /** Slot file number */
+  s: number;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  /** True when the entry is past its TTL (only returned by `peek`) */
+  stale: boolean;
+}
+
+export interface PersistentCacheOptions {
+  /** Directory (relative to the document directory) holding the cache files */
+  dir: string;
+  /** Maximum number of entries kept before the least recently used is evicted */
+  maxEntries: number;
+}
+
+const FLUSH_DELAY_MS = 2000;
+
+export class PersistentCache {
+  private _host: SourceHost;
+  private _dir: string;
+  private _maxEntries: number;
+  /** key → expiry and slot, in least-recently-used-first order */
+  private _index: Map<string, IndexEntry> | null = null;
+  /** key → serialized entry, parsed afresh on every read */
+  private _memory = new Map<string, string>();
+  private _flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(host: SourceHost, options: PersistentCacheOptions) {
+    this._host = host;
+    this._dir = options.dir;
+    this._maxEntries = options.maxEntries;
+  }
+
+  /**
+   * Returns the value if present and not expired. Every call returns a
+   * fresh copy, so callers may modify it without touching the cache.
+   */
+  get<T>(key: string): T | undefined {
+    const hit = this.peek<T>(key);
+    return hit && !hit.stale ? hit.value : undefined;
+  }
+
+  /** Returns a copy of the value even if expired, flagging it as stale. */
+  peek<T>(key: string): CacheLookup<T> | undefined {
+    const index = this._loadIndex();
+    if (!index.has(key)) return undefined;
+
+    const slot = index.get(key)!.s;
+    const entry = this._readEntry<T>(key, slot);
+    if (!entry) {
+      index.delete(key);
+      this._scheduleFlush();
+      return undefined;
+    }
+
+    // Touch: move to the most-recently-used end
+    index.delete(key);
+    index.set(key, { e: entry.e, s: slot });
+    this._scheduleFlush();
+    return { value: entry.v, stale: Date.now() >= entry.e };
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): void {
+    if (ttlMs <= 0) return;
+    const index = this._loadIndex();
+    if (!index.has(key)) {
+      // Free a slot before taking one so the pool never grows past the bound
+      while (index.size > 0 && index.size >= this._maxEntries) this._evict(index.keys().next().value as string);
+    }
+    const slot = index.get(key)?.s ?? this._freeSlot(index);
+    const entry: StoredEntry<T> = { k: key, v: value, e: Date.now() + ttlMs };
+    const raw = JSON.stringify(entry);
+    try {
+      this._host.writeFile(this._slotPath(slot), raw);
+    } catch (e) {
+      this._host.log('Cache write failed for', key, e);
+      return;
+    }
+    this._memory.set(key, raw);
+    index.delete(key);
+    index.set(key, { e: entry.e, s: slot });
+    this._flush();
+  }
+
+  delete(key: string): void {
+    const index = this._loadIndex();
+    if (!index.has(key)) return;
+    this._evict(key);
+    this._flush();
+  }
+
+  /** Delete every entry whose key starts with `prefix`. */
+  deletePrefix(prefix: string): void {
+    const index = this._loadIndex();
+    const keys = Array.from(index.keys()).filter((key) => key.startsWith(prefix));
+    if (keys.length === 0) return;
+    keys.forEach((key) => this._evict(key));
+    this._flush();
+  }
+
+  clear(): void {
+    const index = this._loadIndex();
+    Array.from(index.keys()).forEach((key) => this._evict(key));
+    this._flush();
+  }
+
+  /** Persist pending recency updates immediately (call on dispose). */
+  flush(): void {
+    if (this._flushTimer) this._flush();
+  }
+
+  // ─── Internals ──────────────────────────────────────────────
+
+  private _slotPath(slot: number): string {
+    return `${this._dir}/slot_${slot}.json`;
+  }
+
+  /** Lowest slot number no indexed key holds. */
+  private _freeSlot(index: Map<string, IndexEntry>): number {
+    const used = new Set(Array.from(index.values(), (entry) => entry.s));
+    let slot = 0;
+    while (used.has(slot)) slot++;
+    return slot;
+  }
+
+  private _indexPath(): string {
+    return `${this._dir}/index.json`;
+  }
+
+  private _loadIndex(): Map<string, IndexEntry> {
+    if (this._index) return this._index;
+    this._index = new Map();
+    try {
+      if (this._host.fileExists(this._indexPath())) {
+        const entries = JSON.parse(this._host.readFile(this._indexPath())) as Array<[string, IndexEntry]>;
+        for (const [key, entry] of entries) this._index.set(key, entry);
+      }
+    } catch (e) {
+      this._host.log('Cache index unreadable, starting fresh:', e);
+    }
+    return this._index;
+  }
+
+  private _readEntry<T>(key: string, slot: number): StoredEntry<T> | null {
+    try {
+      let raw = this._memory.get(key);
+      if (raw === undefined) {
+        const path = this._slotPath(slot);
+        if (!this._host.fileExists(path)) return null;
+        raw = this._host.readFile(path);
+      }
+      if (!raw) return null;
+      const entry = JSON.parse(raw) as StoredEntry<T>;
+      if (entry.k !== key) return null;
+      this._memory.set(key, raw);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  private _evict(key: string): void {
+    const slot = this._index?.get(key)?.s;
+    this._index?.delete(key);
+    this._memory.delete(key);
+    if (slot === undefined) return;
+    try {
+      this._host.writeFile(this._slotPath(slot), '');
+    } catch { /* ignore */ }
+  }
+
+  private _scheduleFlush(): void {
+    if (this._flushTimer) return;
+    this._flushTimer = setTimeout(() => this._flush(), FLUSH_DELAY_MS);
+  }
+
+  private _flush(): void {
+    if (this._flushTimer) {
+      clearTimeout(this._flushTimer);
+      this._flushTimer = null;
+    }
+    if (!this._index) return;
+    try {
+      this._host.writeFile(this._indexPath(), JSON.stringify(Array.from(this._index.entries())));
+    } catch (e) {
+      this._host.log('Cache index write failed:', e);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * YouTube Source — Chapters
+ *
+ * Builds a chapter list for a video from YouTube's own chapter markers or,
+ * when the uploader set none, from timestamp lines in the description
+ * ("0:00 Intro", "12. Title - 1:02:03", ...). Chapters can be turned into
+ * virtual tracks that play one span of the underlying video.
+ */
+
+import type { Chapter, MediaItem } from '../types/media';
+import type { ChapterMarkerMap } from './types';
+
+/** Fewer timestamp lines than this are treated as prose, not a tracklist */
+const MIN_DESCRIPTION_CHAPTERS = 3;
+
+const TIMESTAMP_RE = /(?:^|[^\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])/;
+
+// ─── Sources ────────────────────────────────────────────────────
+
+/** Chapters from the `markersMap` of a `/next` response, preferring uploader chapters over auto-generated ones. */
+export function chaptersFromMarkers(markersMap: ChapterMarkerMap[] | undefined, duration?: number): Chapter[] {
+  if (!Array.isArray(markersMap)) return [];
+  const entry = markersMap.find((m) => m.key === 'DESCRIPTION_CHAPTERS')
+    ?? markersMap.find((m) => m.key === 'AUTO_CHAPTERS')
+    ?? markersMap.find((m) => Array.isArray(m.value?.chapters));
+  const chapters: Chapter[] = [];
+  for (const { chapterRenderer: c } of entry?.value?.chapters ?? []) {
+    const start = Number(c?.timeRangeStartMillis);
+    const title = c?.title?.simpleText ?? c?.title?.runs?.map((r) => r.text).join('') ?? '';
+    if (!isNaN(start)) chapters.push({ title: title.trim(), start: start / 1000 });
+  }
+  return withEnds(chapters, duration);
+}
+
+/**
+ * Chapters from timestamp lines in a description. Like YouTube, this
+ * requires the list to start at 0:00 and run in ascending order; other
+ * timestamps in the text (e.g. "see 3:15") are ignored.
+ */
+export function chaptersFromDescription(description: string | undefined, duration?: number): Chapter[] {
+  if (!description) return [];
+  const chapters: Chapter[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP_RE);
+    if (!match) continue;
+    const start = parseTimestamp(match[1]);
+    if (chapters.length === 0 ? start !== 0 : start <= chapters[chapters.length - 1].start) continue;
+    if (duration && start >= duration) continue;
+    chapters.push({ title: chapterTitle(line, match[1]), start });
+  }
+  return chapters.length >= MIN_DESCRIPTION_CHAPTERS ? withEnds(chapters, duration) : [];
+}
+
+// ─── Virtual Tracks ─────────────────────────────────────────────
+
+/** One track per chapter, sharing the video's `contentId` and playing only its span. */
+export function chapterItems(item: MediaItem, chapters: Chapter[]): MediaItem[] {
+  return chapters.map((chapter) => {
+    const end = chapter.end ?? (item.duration || undefined);
+    return {
+      ...item,
+      id: `${item.contentId}@${Math.round(chapter.start * 1000)}`,
+      title: chapter.title,
+      album: item.album ?? item.title,
+      duration: end !== undefined ? Math.max(0, end - chapter.start) : 0,
+      startOffset: chapter.start,
+      endOffset: end,
+    };
+  });
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function withEnds(chapters: Chapter[], duration?: number): Chapter[] {
+  return chapters.map((chapter, i) => ({
+    ...chapter,
+    end: chapters[i + 1]?.start ?? (duration && duration > chapter.start ? duration : undefined),
+  }));
+}
+
+function parseTimestamp(text: string): number {
+  return text.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+}
+
+/** The line without its timestamp, list numbering, brackets and separators. */
+function chapterTitle(line: string, timestamp: string): string {
+  const title = line
+    .replace(timestamp, ' ')
+    .replace(/[[(]\s*[\])]/g, ' ')
+    .replace(/^\s*\d{1,3}[.)]\s+/, '')
+    .replace(/^[\s\-–—|:•·>]+|[\s\-–—|:•·<]+$/g, '')
+    .trim();
+  return title || timestamp;
+}
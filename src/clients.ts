@@ -0,0 +1,134 @@
+/**
+ * YouTube Source — Client Fallback Chain
+ *
+ * Innertube clients (ANDROID, IOS, TV_EMBEDDED, ...) break independently
+ * when YouTube changes something server-side. Stream resolution walks an
+ * ordered chain of clients; `ClientHealth` remembers which ones failed
+ * while another succeeded and demotes them behind healthy clients, with
+ * the state kept in `host.storage` so it survives restarts.
+ */
+
+import type { Innertube } from 'youtubei.js';
+import type { SourceHost } from '../types/host';
+import type { ClientStatus, StreamClient } from '../types/media';
+import type { InnertubeVideoInfo } from './types';
+
+/** Consecutive failures before a client is moved to the back of the chain */
+const DEMOTE_AFTER = 2;
+const BASE_BACKOFF_MS = 15 * 60 * 1000;
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+export const STREAM_CLIENTS: readonly StreamClient[] = [
+  'ANDROID',
+  'IOS',
+  'TV_EMBEDDED',
+  'WEB_CREATOR',
+  'MWEB',
+  'WEB',
+  'WEB_EMBEDDED',
+];
+
+interface HealthEntry {
+  /** Consecutive failures since the last success */
+  failures: number;
+  demotedUntil?: number;
+  lastError?: string;
+}
+
+/** iOS puts the IOS client first because it returns HLS manifests. */
+export function defaultClientChain(platform: SourceHost['platform']): StreamClient[] {
+  return platform === 'ios'
+    ? ['IOS', 'ANDROID', 'TV_EMBEDDED', 'WEB_CREATOR', 'MWEB']
+    : ['ANDROID', 'IOS', 'TV_EMBEDDED', 'WEB_CREATOR', 'MWEB'];
+}
+
+/**
+ * Fetch a player response as the given client. ANDROID keeps going through
+ * the shorts endpoint the source has always used for it.
+ */
+export async function fetchPlayerInfo(innertube: Innertube, contentId: string, client: StreamClient): Promise<InnertubeVideoInfo> {
+  const info = client === 'ANDROID'
+    ? await innertube.getShortsVideoInfo(contentId, client)
+    : await innertube.getBasicInfo(contentId, client);
+  return info as unknown as InnertubeVideoInfo;
+}
+
+export class ClientHealth {
+  private _host: SourceHost;
+  private _key: string;
+  private _entries: Record<string, HealthEntry>;
+
+  constructor(host: SourceHost, storageKey: string) {
+    this._host = host;
+    this._key = storageKey;
+    this._entries = this._load();
+  }
+
+  /** The chain with currently demoted clients moved to the end (they remain a last resort). */
+  order(chain: StreamClient[]): StreamClient[] {
+    const now = Date.now();
+    const healthy = chain.filter((client) => !this._isDemoted(client, now));
+    const demoted = chain
+      .filter((client) => this._isDemoted(client, now))
+      .sort((a, b) => (this._entries[a].demotedUntil ?? 0) - (this._entries[b].demotedUntil ?? 0));
+    return [...healthy, ...demoted];
+  }
+
+  recordSuccess(client: StreamClient): void {
+    // Healthy clients have no entry; skip the storage write on the hot path
+    if (!this._entries[client]) return;
+    delete this._entries[client];
+    this._save();
+  }
+
+  recordFailure(client: StreamClient, error: unknown): void {
+    const entry = this._entries[client] ?? { failures: 0 };
+    entry.failures += 1;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    if (entry.failures >= DEMOTE_AFTER) {
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (entry.failures - DEMOTE_AFTER), MAX_BACKOFF_MS);
+      entry.demotedUntil = Date.now() + backoff;
+      this._host.log(`Client ${client} demoted for ${Math.round(backoff / 60000)} min after ${entry.failures} failures`);
+    }
+    this._entries[client] = entry;
+    this._save();
+  }
+
+  status(chain: StreamClient[]): ClientStatus[] {
+    const now = Date.now();
+    return this.order(chain).map((client) => {
+      const entry = this._entries[client];
+      return {
+        client,
+        healthy: !this._isDemoted(client, now),
+        failures: entry?.failures ?? 0,
+        demotedUntil: this._isDemoted(client, now) ? entry?.demotedUntil : undefined,
+        lastError: entry?.lastError,
+      };
+    });
+  }
+
+  reset(): void {
+    this._entries = {};
+    this._host.storage.delete(this._key);
+  }
+
+  private _isDemoted(client: StreamClient, now: number): boolean {
+    const until = this._entries[client]?.demotedUntil;
+    return until !== undefined && until > now;
+  }
+
+  private _load(): Record<string, HealthEntry> {
+    const raw = this._host.storage.get(this._key);
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as Record<string, HealthEntry>;
+    } catch {
+      return {};
+    }
+  }
+
+  private _save(): void {
+    this._host.storage.set(this._key, JSON.stringify(this._entries));
+  }
+}
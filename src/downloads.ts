@@ -0,0 +1,441 @@
+/**
+ * YouTube Source — Offline Download Manager
+ *
+ * Runs a persistent download queue on top of the host's single-slot
+ * `downloadFile` API. The queue lives in `host.storage` so it survives
+ * restarts; each finished track gets a JSON metadata sidecar next to the
+ * audio file, plus an index file, so an offline library can be rebuilt
+ * even if storage is wiped.
+ *
+ * When the host supports binary file access, audio is fetched in ranged
+ * chunks appended to the file, so an interrupted download resumes after
+ * the last complete chunk instead of starting over. The host has no delete
+ * API, so files of removed downloads are emptied rather than deleted.
+ */
+
+import type { SourceHost } from '../types/host';
+import type { MediaCollection, MediaItem, DownloadInfo, DownloadTask } from '../types/media';
+
+const QUEUE_KEY = 'download_queue';
+const DOWNLOAD_THREADS = 4;
+const MAX_ATTEMPTS = 3;
+/** Re-resolve stream URLs that expire sooner than this before starting */
+const MIN_URL_LIFETIME_MS = 5 * 60 * 1000;
+const PROGRESS_EMIT_INTERVAL_MS = 500;
+/** Bytes fetched per ranged request when downloading in resumable chunks */
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface DownloadManagerDeps {
+  resolve(contentId: string): Promise<DownloadInfo>;
+  /** Drop any cached stream for the content ID so `resolve` fetches a fresh URL. */
+  invalidate(contentId: string): void;
+  getCollection(browseId: string): Promise<MediaCollection>;
+  /** Embed title/artist/album/artwork tags into the downloaded file. */
+  embedMetadata(path: string, item: MediaItem): Promise<void>;
+}
+
+export interface DownloadSidecar {
+  contentId: string;
+  sourceId: string;
+  title: string;
+  artist?: string;
+  album?: string;
+  artwork: string;
+  duration: number;
+  file: string;
+  mimeType?: string;
+  contentLength: number;
+  collectionId?: string;
+  downloadedAt: number;
+}
+
+export class DownloadManager {
+  private _host: SourceHost;
+  private _deps: DownloadManagerDeps;
+  private _dir: string;
+  private _tasks: DownloadTask[] = [];
+  private _listeners = new Set<(tasks: DownloadTask[]) => void>();
+  private _active: DownloadTask | null = null;
+  private _removed = new Set<string>();
+  private _running = false;
+  private _stopped = false;
+
+  constructor(host: SourceHost, deps: DownloadManagerDeps, dir: string) {
+    this._host = host;
+    this._deps = deps;
+    this._dir = dir;
+    this._load();
+  }
+
+  // ─── Public API ─────────────────────────────────────────────
+
+  enqueue(item: MediaItem, collectionId?: string): DownloadTask {
+    const existing = this._find(item.contentId);
+    if (existing && existing.state !== 'failed') return { ...existing };
+
+    const now = Date.now();
+    const task: DownloadTask = existing ?? {
+      contentId: item.contentId,
+      item,
+      state: 'queued',
+      progress: 0,
+      attempts: 0,
+      collectionId,
+      addedAt: now,
+      updatedAt: now,
+    };
+    if (existing) this._reset(existing);
+    else this._tasks.push(task);
+    this._changed();
+    this._pump();
+    return { ...task };
+  }
+
+  async enqueueCollection(browseId: string): Promise<DownloadTask[]> {
+    const collection = await this._deps.getCollection(browseId);
+    this._writeCollectionSidecar(browseId, collection);
+    return collection.items.map((item) => this.enqueue(item, browseId));
+  }
+
+  list(): DownloadTask[] {
+    return this._tasks.map((task) => ({ ...task }));
+  }
+
+  retry(contentId: string): void {
+    const task = this._find(contentId);
+    if (!task || task.state !== 'failed') return;
+    this._reset(task);
+    this._changed();
+    this._pump();
+  }
+
+  remove(contentId: string): void {
+    const task = this._find(contentId);
+    if (!task) return;
+    this._tasks = this._tasks.filter((t) => t !== task);
+    if (this._active === task) {
+      // Files are discarded once the cancelled transfer has unwound
+      this._removed.add(contentId);
+      this._host.cancelDownload();
+    } else {
+      this._discardFiles(task);
+    }
+    this._writeIndex();
+    this._changed();
+  }
+
+  subscribe(callback: (tasks: DownloadTask[]) => void): () => void {
+    this._listeners.add(callback);
+    return () => { this._listeners.delete(callback); };
+  }
+
+  /** Start processing queued tasks (including ones interrupted by a restart). */
+  start(): void {
+    this._stopped = false;
+    this._pump();
+  }
+
+  /** Stop processing; an in-flight download is cancelled and re-queued. */
+  stop(): void {
+    this._stopped = true;
+    if (this._active) this._host.cancelDownload();
+  }
+
+  // ─── Queue Processing ───────────────────────────────────────
+
+  private _pump(): void {
+    if (this._running || this._stopped) return;
+    this._running = true;
+    this._drain().then(
+      () => {
+        this._running = false;
+        // `start()` may have been called while a stopped drain was unwinding
+        if (this._tasks.some((t) => t.state === 'queued')) this._pump();
+      },
+      (e) => {
+        this._running = false;
+        this._host.log('Download queue stopped unexpectedly:', e);
+      },
+    );
+  }
+
+  private async _drain(): Promise<void> {
+    let next = this._tasks.find((t) => t.state === 'queued');
+    while (next && !this._stopped) {
+      await this._run(next);
+      next = this._tasks.find((t) => t.state === 'queued');
+    }
+  }
+
+  private async _run(task: DownloadTask): Promise<void> {
+    this._active = task;
+    task.state = 'downloading';
+    task.error = undefined;
+    this._changed();
+
+    let unsubscribe: (() => void) | null = null;
+    // The host reports progress per transfer; map it onto the whole file
+    let base = 0;
+    let span = 1;
+    try {
+      // A previous failure may have been an expired or revoked URL
+      if (task.attempts > 0) this._deps.invalidate(task.contentId);
+      let info = await this._deps.resolve(task.contentId);
+      if (info.expiresAt && info.expiresAt - Date.now() < MIN_URL_LIFETIME_MS) {
+        this._deps.invalidate(task.contentId);
+        info = await this._deps.resolve(task.contentId);
+      }
+
+      const path = `${this._dir}/${task.contentId}.${extensionFor(info.mimeType)}`;
+      this._host.ensureDirectory(this._dir);
+
+      let lastEmit = 0;
+      unsubscribe = this._host.onDownloadProgress((progress) => {
+        task.progress = base + progress * span;
+        const now = Date.now();
+        if (now - lastEmit >= PROGRESS_EMIT_INTERVAL_MS) {
+          lastEmit = now;
+          this._emit();
+        }
+      });
+
+      const readBinary = this._host.readBinaryFile?.bind(this._host);
+      const writeBinary = this._host.writeBinaryFile?.bind(this._host);
+      if (readBinary && writeBinary && info.contentLength > 0) {
+        const total = info.contentLength;
+        // Resume only into the same file of the same size, and only if it holds exactly the completed chunks
+        let done = task.path === path && task.contentLength === total ? task.downloadedBytes ?? 0 : 0;
+        if (done > 0 && (!this._host.fileExists(path) || readBinary(path).byteLength !== done)) done = 0;
+        task.path = path;
+        task.contentLength = total;
+        task.downloadedBytes = done;
+        const chunkPath = `${this._dir}/chunk.tmp`;
+        while (done < total) {
+          const length = Math.min(CHUNK_SIZE, total - done);
+          base = done / total;
+          span = length / total;
+          task.progress = base;
+          this._emit();
+          await this._host.downloadFile(withRange(info.url, done, done + length - 1), length, chunkPath, 1);
+          const chunk = readBinary(chunkPath);
+          if (chunk.byteLength !== length) throw new Error(`Incomplete chunk: got ${chunk.byteLength} of ${length} bytes`);
+          writeBinary(path, done === 0 ? chunk : concatBytes(readBinary(path), chunk));
+          done += length;
+          task.downloadedBytes = done;
+          this._changed();
+        }
+        writeBinary(chunkPath, new Uint8Array(0));
+      } else {
+        task.path = path;
+        task.progress = 0;
+        await this._host.downloadFile(info.url, info.contentLength, path, DOWNLOAD_THREADS);
+      }
+      await this._tag(task, path);
+
+      task.metadataPath = this._writeSidecar(task, path, info);
+      task.state = 'completed';
+      task.progress = 1;
+      task.downloadedBytes = undefined;
+    } catch (e) {
+      if (this._removed.has(task.contentId)) {
+        this._removed.delete(task.contentId);
+        this._discardFiles(task);
+      } else if (this._stopped) {
+        task.state = 'queued';
+      } else {
+        task.attempts += 1;
+        task.error = e instanceof Error ? e.message : String(e);
+        task.state = task.attempts < MAX_ATTEMPTS ? 'queued' : 'failed';
+        this._host.log('Download failed for', task.contentId, `(attempt ${task.attempts})`, e);
+        // Move retries behind the rest of the queue
+        if (task.state === 'queued') {
+          this._tasks = this._tasks.filter((t) => t !== task);
+          this._tasks.push(task);
+        }
+      }
+    } finally {
+      unsubscribe?.();
+      this._active = null;
+      task.updatedAt = Date.now();
+      this._changed();
+    }
+  }
+
+  /** Tagging is best-effort: an untagged file is still a usable download. */
+  private async _tag(task: DownloadTask, path: string): Promise<void> {
+    if (!this._host.readBinaryFile || !this._host.writeBinaryFile) return;
+    try {
+      await this._deps.embedMetadata(path, task.item);
+    } catch (e) {
+      this._host.log('Failed to tag download', task.contentId, e);
+    }
+  }
+
+  // ─── Sidecars ───────────────────────────────────────────────
+
+  private _writeSidecar(task: DownloadTask, file: string, info: DownloadInfo): string {
+    const { item } = task;
+    const sidecar: DownloadSidecar = {
+      contentId: item.contentId,
+      sourceId: item.sourceId,
+      title: item.title,
+      artist: item.artist,
+      album: item.album,
+      artwork: item.artwork,
+      duration: item.duration,
+      file,
+      mimeType: info.mimeType,
+      contentLength: info.contentLength,
+      collectionId: task.collectionId,
+      downloadedAt: Date.now(),
+    };
+    const path = `${this._dir}/${item.contentId}.json`;
+    this._host.writeFile(path, JSON.stringify(sidecar, null, 2));
+    this._writeIndex();
+    return path;
+  }
+
+  private _writeCollectionSidecar(browseId: string, collection: MediaCollection): void {
+    try {
+      this._host.writeFile(`${this._dir}/collections/${browseId}.json`, JSON.stringify({
+        browseId,
+        title: collection.title,
+        subtitle: collection.subtitle,
+        thumbnail: collection.thumbnail,
+        collectionType: collection.collectionType,
+        contentIds: collection.items.map((item) => item.contentId),
+      }, null, 2));
+    } catch (e) {
+      this._host.log('Failed to write collection sidecar:', e);
+    }
+  }
+
+  /** Empty the audio file and sidecar of a removed download. */
+  private _discardFiles(task: DownloadTask): void {
+    const sidecarPath = task.metadataPath ?? `${this._dir}/${task.contentId}.json`;
+    try {
+      if (task.path && this._host.fileExists(task.path)) {
+        if (this._host.writeBinaryFile) this._host.writeBinaryFile(task.path, new Uint8Array(0));
+        else this._host.writeFile(task.path, '');
+      }
+      if (this._host.fileExists(sidecarPath)) this._host.writeFile(sidecarPath, '');
+    } catch (e) {
+      this._host.log('Failed to discard files of', task.contentId, e);
+    }
+  }
+
+  private _writeIndex(): void {
+    const completed = this._tasks.filter((t) => t.state === 'completed').map((t) => t.contentId);
+    this._host.writeFile(`${this._dir}/index.json`, JSON.stringify(completed));
+  }
+
+  // ─── Persistence ────────────────────────────────────────────
+
+  private _load(): void {
+    const raw = this._host.storage.get(QUEUE_KEY);
+    if (raw) {
+      try {
+        this._tasks = JSON.parse(raw) as DownloadTask[];
+      } catch {
+        this._tasks = [];
+      }
+    } else {
+      this._tasks = this._rebuildFromSidecars();
+    }
+    // Anything mid-flight when the app was killed is queued again (and resumes if it can)
+    for (const task of this._tasks) {
+      if (task.state === 'downloading') {
+        task.state = 'queued';
+        task.progress = task.downloadedBytes && task.contentLength ? task.downloadedBytes / task.contentLength : 0;
+      }
+    }
+  }
+
+  /** Recover completed downloads from the on-disk index when storage is empty. */
+  private _rebuildFromSidecars(): DownloadTask[] {
+    const indexPath = `${this._dir}/index.json`;
+    try {
+      if (!this._host.fileExists(indexPath)) return [];
+      const ids = JSON.parse(this._host.readFile(indexPath)) as string[];
+      const tasks: DownloadTask[] = [];
+      for (const id of ids) {
+        const sidecarPath = `${this._dir}/${id}.json`;
+        if (!this._host.fileExists(sidecarPath)) continue;
+        // Sidecars of removed downloads are emptied
+        const raw = this._host.readFile(sidecarPath);
+        if (!raw) continue;
+        const sidecar = JSON.parse(raw) as DownloadSidecar;
+        if (!this._host.fileExists(sidecar.file)) continue;
+        tasks.push({
+          contentId: sidecar.contentId,
+          item: {
+            id: sidecar.contentId,
+            sourceId: sidecar.sourceId,
+            contentId: sidecar.contentId,
+            type: 'track',
+            title: sidecar.title,
+            artist: sidecar.artist,
+            album: sidecar.album,
+            artwork: sidecar.artwork,
+            duration: sidecar.duration,
+          },
+          state: 'completed',
+          progress: 1,
+          path: sidecar.file,
+          metadataPath: sidecarPath,
+          attempts: 0,
+          collectionId: sidecar.collectionId,
+          addedAt: sidecar.downloadedAt,
+          updatedAt: sidecar.downloadedAt,
+        });
+      }
+      return tasks;
+    } catch (e) {
+      this._host.log('Failed to rebuild downloads from sidecars:', e);
+      return [];
+    }
+  }
+
+  private _changed(): void {
+    this._host.storage.set(QUEUE_KEY, JSON.stringify(this._tasks));
+    this._emit();
+  }
+
+  private _emit(): void {
+    if (this._listeners.size === 0) return;
+    const snapshot = this.list();
+    this._listeners.forEach((listener) => {
+      try { listener(snapshot); } catch { /* ignore listener errors */ }
+    });
+  }
+
+  private _find(contentId: string): DownloadTask | undefined {
+    return this._tasks.find((t) => t.contentId === contentId);
+  }
+
+  private _reset(task: DownloadTask): void {
+    task.state = 'queued';
+    task.progress = 0;
+    task.attempts = 0;
+    task.error = undefined;
+    task.updatedAt = Date.now();
+  }
+}
+
+/** googlevideo takes byte ranges as a query parameter (inclusive end). */
+function withRange(url: string, start: number, end: number): string {
+  return `${url}${url.includes('?') ? '&' : '?'}range=${start}-${end}`;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.byteLength + b.byteLength);
+  out.set(a, 0);
+  out.set(b, a.byteLength);
+  return out;
+}
+
+function extensionFor(mimeType?: string): string {
+  if (mimeType?.startsWith('audio/webm')) return 'webm';
+  if (mimeType?.startsWith('audio/mp4')) return 'm4a';
+  return 'audio';
+}
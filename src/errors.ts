@@ -0,0 +1,146 @@
+/**
+ * YouTube Source — Errors
+ *
+ * Error classes thrown by the source. Each carries a stable `code` so the
+ * app can tell failures apart without relying on `instanceof` across the
+ * bundle boundary.
+ */
+
+import { Utils } from 'youtubei.js';
+import type { SourceError, SourceErrorCode } from '../types/media';
+import type { InnertubePlayabilityStatus } from './types';
+
+/** Codes worth retrying later without any user action. */
+const RETRYABLE_CODES = new Set<SourceErrorCode>(['NETWORK', 'RATE_LIMITED']);
+
+export class YouTubeSourceError extends Error implements SourceError {
+  readonly code: SourceErrorCode;
+  readonly retryable: boolean;
+  readonly reason?: string;
+  readonly cause?: unknown;
+
+  constructor(code: SourceErrorCode, message: string, options: { reason?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'YouTubeSourceError';
+    this.code = code;
+    this.retryable = RETRYABLE_CODES.has(code);
+    this.reason = options.reason;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, YouTubeSourceError.prototype);
+  }
+}
+
+/** Thrown by operations that need a signed-in account when there is none. */
+export class NotSignedInError extends YouTubeSourceError {
+  constructor(action: string) {
+    super('LOGIN_REQUIRED', `Sign in to ${action}`);
+    this.name = 'NotSignedInError';
+    Object.setPrototypeOf(this, NotSignedInError.prototype);
+  }
+}
+
+export function isSourceError(error: unknown): error is SourceError {
+  return error instanceof YouTubeSourceError;
+}
+
+// ─── Playability ────────────────────────────────────────────────
+
+/**
+ * Throw if the player response says the video cannot be played. The
+ * status is authoritative; the (localized) reason text only refines it.
+ */
+export function assertPlayable(playability: InnertubePlayabilityStatus | undefined, contentId: string): void {
+  if (!playability || playability.status === 'OK') return;
+  const reason = playability.reason || undefined;
+  throw new YouTubeSourceError(playabilityCode(playability), reason ?? `Video ${contentId} is not playable`, { reason });
+}
+
+function playabilityCode(playability: InnertubePlayabilityStatus): SourceErrorCode {
+  const status = playability.status ?? '';
+  const reason = (playability.reason ?? '').toLowerCase();
+  if (status === 'AGE_CHECK_REQUIRED' || status === 'AGE_VERIFICATION_REQUIRED' || /confirm your age|age-restricted|inappropriate for some users/.test(reason)) {
+    return 'AGE_RESTRICTED';
+  }
+  if (/not a bot|unusual traffic/.test(reason)) return 'RATE_LIMITED';
+  if (/country|region|your location/.test(reason)) return 'GEO_BLOCKED';
+  if (status === 'LOGIN_REQUIRED') return 'LOGIN_REQUIRED';
+  return 'UNAVAILABLE';
+}
+
+// ─── Normalization ──────────────────────────────────────────────
+
+/**
+ * Map anything thrown by youtubei.js, `fetch` or our own parsing onto a
+ * `YouTubeSourceError`. Errors that already carry a code pass through.
+ */
+export function toSourceError(error: unknown, context?: string): YouTubeSourceError {
+  if (error instanceof YouTubeSourceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const prefix = context ? `${context}: ` : '';
+  const make = (code: SourceErrorCode) => new YouTubeSourceError(code, `${prefix}${message}`, { cause: error });
+
+  // youtubei.js attaches the playability status to "video unavailable" errors
+  const info = (error as { info?: InnertubePlayabilityStatus } | null)?.info;
+  if (info && typeof info === 'object' && typeof info.status === 'string') {
+    return new YouTubeSourceError(playabilityCode(info), `${prefix}${info.reason || message}`, { reason: info.reason || undefined, cause: error });
+  }
+
+  const status = message.match(/failed with status (\d{3})/)?.[1];
+  const statusCode = status ? codeForStatus(Number(status)) : undefined;
+  if (statusCode) return make(statusCode);
+
+  if (error instanceof Utils.ParsingError || error instanceof SyntaxError || (error instanceof TypeError && !/network|fetch/i.test(message))) {
+    return make('PARSE');
+  }
+  if (/network|fetch failed|failed to fetch|timed? ?out|ECONN|ENOTFOUND|EAI_AGAIN|socket/i.test(message)) {
+    return make('NETWORK');
+  }
+  if (/streaming data not available|no matching formats|unavailable/i.test(message)) return make('UNAVAILABLE');
+  return make('UNKNOWN');
+}
+
+/** The code an HTTP status implies, or undefined when it says nothing specific. */
+export function codeForStatus(status: number): SourceErrorCode | undefined {
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 401) return 'LOGIN_REQUIRED';
+  if (status === 404 || status === 410) return 'UNAVAILABLE';
+  if (status >= 500 && status < 600) return 'NETWORK';
+  return undefined;
+}
+
+/**
+ * True when the request never reached the service (offline, DNS, refused
+ * connection), as opposed to the service answering with a 5xx.
+ */
+export function isTransportError(error: YouTubeSourceError): boolean {
+  if (error.code !== 'NETWORK') return false;
+  const cause = error.cause ?? error;
+  const message = cause instanceof Error ? cause.message : String(cause);
+  if (/failed with status \d{3}/.test(message)) return false;
+  return (cause instanceof TypeError && /network|fetch/i.test(message))
+    || /network request failed|fetch failed|failed to fetch|ECONN|ENOTFOUND|EAI_AGAIN|socket/i.test(message);
+}
+
+/** Most-to-least actionable, for choosing which of several failures to surface. */
+const CODE_PRIORITY: SourceErrorCode[] = [
+  'AGE_RESTRICTED', 'GEO_BLOCKED', 'LOGIN_REQUIRED', 'UNAVAILABLE', 'RATE_LIMITED', 'NETWORK', 'PARSE', 'CANCELLED', 'UNKNOWN',
+];
+
+/** The most actionable of several errors (the earliest wins ties), or undefined for none. */
+export function mostSpecificError(errors: YouTubeSourceError[]): YouTubeSourceError | undefined {
+  let best: YouTubeSourceError | undefined;
+  for (const error of errors) {
+    if (!best || CODE_PRIORITY.indexOf(error.code) < CODE_PRIORITY.indexOf(best.code)) best = error;
+  }
+  return best;
+}
+
+/** Run `task`, rethrowing any failure as a `YouTubeSourceError`. */
+export async function withSourceErrors<T>(context: string, task: () => Promise<T>): Promise<T> {
+  try {
+    return await task();
+  } catch (e) {
+    throw toSourceError(e, context);
+  }
+}
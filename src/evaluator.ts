@@ -0,0 +1,153 @@
+/**
+ * YouTube Source — Signature Evaluator
+ *
+ * youtubei.js hands the player's signature and n-parameter functions to
+ * `Platform.shim.eval` as source text (`... descramble_sig(sig);` or
+ * `... nFn(nsig);`) once per stream URL. `SignatureEvaluator` compiles each
+ * function once, memoizes its results, and gives up on a player whose code
+ * overruns the time budget instead of stalling every later decipher.
+ *
+ * Isolation is limited to what the host runtime allows, which has no
+ * separate realm (no `vm`, no workers): common globals (`globalThis`,
+ * `window`, `fetch`, `host`, ...) are shadowed so the code cannot reach them
+ * by name. Player code is written for sloppy mode, so it is compiled in
+ * strict mode only when that works and falls back to sloppy mode otherwise;
+ * sloppy code can still reach the global object through `this` and create
+ * globals by implicit assignment. This is not a sandbox, so only validated
+ * players from trusted mirrors should get here.
+ */
+
+export interface SignatureEvaluatorOptions {
+  /** Maximum wall time (ms) a single call may take before the player is disabled */
+  budgetMs: number;
+  /** Compiled programs kept; older players are dropped */
+  maxPrograms: number;
+  /** Memoized results kept per program */
+  maxResults: number;
+  log(...args: unknown[]): void;
+}
+
+interface Program {
+  run(value: string): unknown;
+  results: Map<string, string>;
+  strict: boolean;
+  /** Set once the program failed to compile or ran over budget */
+  disabled?: string;
+}
+
+/** Names the evaluated code sees as `undefined` instead of the real globals. */
+const SHADOWED_GLOBALS = [
+  'globalThis', 'window', 'self', 'global', 'host', 'fetch', 'XMLHttpRequest', 'WebSocket',
+  'require', 'process', 'Function', 'setTimeout', 'setInterval', 'queueMicrotask',
+];
+
+/** The argument names youtubei.js passes in `env`. */
+const INPUT_NAMES = ['sig', 'nsig'] as const;
+type InputName = (typeof INPUT_NAMES)[number];
+
+export class SignatureEvaluator {
+  private _options: SignatureEvaluatorOptions;
+  /** Keyed by (input name + source text), which identifies one player's function */
+  private _programs = new Map<string, Program>();
+
+  constructor(options: SignatureEvaluatorOptions) {
+    this._options = options;
+  }
+
+  /** `Platform.shim.eval` implementation: returns the transformed value. */
+  evaluate(code: string, env: Record<string, unknown>): unknown {
+    const input = INPUT_NAMES.find((name) => typeof env[name] === 'string');
+    if (!input) throw new Error('Unsupported evaluation request');
+    const value = env[input] as string;
+
+    let program = this._program(input, code);
+    if (program.disabled) throw new Error(`Player function disabled: ${program.disabled}`);
+
+    const memoized = program.results.get(value);
+    if (memoized !== undefined) return memoized;
+
+    const started = Date.now();
+    let result: unknown;
+    try {
+      result = program.run(value);
+    } catch (e) {
+      // Sloppy-mode code (implicit globals, `arguments.callee`) throws under strict mode
+      if (!program.strict || !(e instanceof ReferenceError || e instanceof TypeError)) throw e;
+      this._options.log(`Retrying ${input} function in sloppy mode:`, e.message);
+      program = this._replace(input, code, compile(input, code, false));
+      if (program.disabled) throw new Error(`Player function disabled: ${program.disabled}`);
+      result = program.run(value);
+    }
+    const elapsed = Date.now() - started;
+    // Synchronous code cannot be pre-empted; an overrun is detected afterwards
+    if (elapsed > this._options.budgetMs) {
+      program.disabled = `took ${elapsed} ms (budget ${this._options.budgetMs} ms)`;
+      this._options.log(`Disabled ${input} function:`, program.disabled);
+      throw new Error(`Player function disabled: ${program.disabled}`);
+    }
+
+    if (typeof result === 'string') {
+      program.results.set(value, result);
+      if (program.results.size > this._options.maxResults) {
+        program.results.delete(program.results.keys().next().value as string);
+      }
+    }
+    return result;
+  }
+
+  clear(): void {
+    this._programs.clear();
+  }
+
+  private _program(input: InputName, code: string): Program {
+    const key = `${input}:${code}`;
+    let program = this._programs.get(key);
+    if (program) {
+      // Touch for LRU order
+      this._programs.delete(key);
+      this._programs.set(key, program);
+      return program;
+    }
+
+    program = compile(input, code, true);
+    if (program.disabled) program = compile(input, code, false);
+    if (program.disabled) this._options.log(`Could not compile ${input} function:`, program.disabled);
+    this._programs.set(key, program);
+    while (this._programs.size > this._options.maxPrograms) {
+      this._programs.delete(this._programs.keys().next().value as string);
+    }
+    return program;
+  }
+
+  private _replace(input: InputName, code: string, program: Program): Program {
+    if (program.disabled) this._options.log(`Could not compile ${input} function:`, program.disabled);
+    this._programs.set(`${input}:${code}`, program);
+    return program;
+  }
+}
+
+function compile(input: InputName, code: string, strict: boolean): Program {
+  const results = new Map<string, string>();
+
+  // The snippet ends in a call such as `descramble_sig(sig);`; return its value instead
+  const call = new RegExp(`([\\w$]+)\\(${input}\\);?\\s*$`);
+  const match = code.match(call);
+  if (!match) return { run: () => undefined, results, strict, disabled: 'unrecognized function shape' };
+
+  // `name=function(...)` assignments would create globals; declare them locally
+  const assigned = code.match(/^\s*([\w$]+)\s*=\s*function\b/)?.[1];
+  const body = [
+    strict ? '"use strict";' : '',
+    assigned ? `var ${assigned};` : '',
+    code.slice(0, match.index),
+    `return ${match[1]}(${input});`,
+  ].join('\n');
+
+  try {
+    const fn = new Function(...SHADOWED_GLOBALS, input, body) as (...args: unknown[]) => unknown;
+    const shadows = SHADOWED_GLOBALS.map(() => undefined);
+    return { run: (value) => fn.apply(undefined, [...shadows, value]), results, strict };
+  } catch (e) {
+    return { run: () => undefined, results, strict, disabled: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * YouTube Source — Audio Format Selection
+ *
+ * Picks an audio-only adaptive format that matches the user's quality and
+ * codec preference, falling back gracefully when the preferred codec or
+ * bitrate tier is not available for a video.
+ */
+
+import type { AudioCodec, AudioFormatInfo, AudioQuality, AudioQualityPreference } from '../types/media';
+import type { InnertubeFormat } from './types';
+
+/** Upper bitrate bound (bps) for each quality tier; `max` is unbounded. */
+const QUALITY_BITRATE_CAP: Record<AudioQualityPreference['quality'], number> = {
+  low: 72000,
+  normal: 140000,
+  high: 200000,
+  max: Infinity,
+};
+
+const AUDIO_CODECS: readonly AudioCodec[] = ['any', 'aac', 'opus'];
+
+export function isAudioQuality(value: unknown): value is AudioQuality {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUALITY_BITRATE_CAP, value);
+}
+
+export function isAudioCodec(value: unknown): value is AudioCodec {
+  return AUDIO_CODECS.includes(value as AudioCodec);
+}
+
+export function getAudioCodec(format: InnertubeFormat): AudioFormatInfo['codec'] {
+  const mime = format.mime_type ?? '';
+  if (mime.includes('opus')) return 'opus';
+  if (mime.includes('mp4a')) return 'aac';
+  return 'unknown';
+}
+
+export function describeAudioFormat(format: InnertubeFormat): AudioFormatInfo {
+  return {
+    itag: format.itag ?? 0,
+    mimeType: format.mime_type ?? '',
+    codec: getAudioCodec(format),
+    bitrate: format.average_bitrate ?? format.bitrate ?? 0,
+    contentLength: format.content_length ?? 0,
+    sampleRate: format.audio_sample_rate,
+    channels: format.audio_channels,
+    trackName: format.audio_track?.display_name,
+  };
+}
+
+/** Audio-only formats of the default audio track, without loudness-normalized (DRC) duplicates. */
+export function listAudioFormats(formats: InnertubeFormat[]): InnertubeFormat[] {
+  let audio = formats.filter((f) => f.has_audio && !f.has_video);
+  if (audio.some((f) => f.audio_track)) {
+    const defaults = audio.filter((f) => !f.audio_track || f.audio_track.audio_is_default);
+    if (defaults.length > 0) audio = defaults;
+  }
+  const plain = audio.filter((f) => !f.is_drc);
+  return plain.length > 0 ? plain : audio;
+}
+
+/**
+ * Choose a format for the preference: the highest bitrate at or under the
+ * tier cap in the preferred codec, else the lowest bitrate available. If
+ * the preferred codec is missing entirely, any codec is considered.
+ */
+export function selectAudioFormat(
+  formats: InnertubeFormat[],
+  preference: AudioQualityPreference,
+): InnertubeFormat | undefined {
+  const audio = listAudioFormats(formats);
+  if (audio.length === 0) return undefined;
+
+  const preferred = preference.codec === 'any'
+    ? audio
+    : audio.filter((f) => getAudioCodec(f) === preference.codec);
+  const candidates = (preferred.length > 0 ? preferred : audio)
+    .slice()
+    .sort((a, b) => bitrateOf(a) - bitrateOf(b));
+
+  const cap = QUALITY_BITRATE_CAP[preference.quality];
+  const withinCap = candidates.filter((f) => bitrateOf(f) <= cap);
+  return withinCap.length > 0 ? withinCap[withinCap.length - 1] : candidates[0];
+}
+
+function bitrateOf(format: InnertubeFormat): number {
+  return format.average_bitrate ?? format.bitrate ?? 0;
+}
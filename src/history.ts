@@ -0,0 +1,126 @@
+/**
+ * YouTube Source — Play History
+ *
+ * A local record of what was played, kept in one JSON file through the
+ * host so it works without a signed-in account. Entries are aggregated per
+ * item (last play time and play count) and bounded to the most
+ * recently played; writes are batched like the cache index.
+ */
+
+import type { SourceHost } from '../types/host';
+import type { MediaItem, PlayHistoryEntry, PlayHistoryPage } from '../types/media';
+
+export interface PlayHistoryOptions {
+  /** File (relative to the document directory) holding the history */
+  path: string;
+  /** Distinct items kept; the least recently played are dropped */
+  maxEntries: number;
+}
+
+const WRITE_DELAY_MS = 2000;
+/** A second report within this window (e.g. resuming after a pause) is the same play */
+const REPLAY_WINDOW_MS = 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+
+export class PlayHistory {
+  private _host: SourceHost;
+  private _options: PlayHistoryOptions;
+  /** MediaItem.id → entry, in least-recently-played-first order */
+  private _entries: Map<string, PlayHistoryEntry> | null = null;
+  private _writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(host: SourceHost, options: PlayHistoryOptions) {
+    this._host = host;
+    this._options = options;
+  }
+
+  record(item: MediaItem): void {
+    const entries = this._load();
+    const now = Date.now();
+    const previous = entries.get(item.id);
+    if (previous && now - previous.lastPlayedAt < REPLAY_WINDOW_MS) return;
+
+    entries.delete(item.id);
+    entries.set(item.id, {
+      item,
+      lastPlayedAt: now,
+      playCount: (previous?.playCount ?? 0) + 1,
+    });
+    while (entries.size > this._options.maxEntries) entries.delete(entries.keys().next().value as string);
+    this._scheduleWrite();
+  }
+
+  /** Most recent first. `continuation` is the offset of the next page; `limit` is at least 1. */
+  page(limit = DEFAULT_PAGE_SIZE, continuation?: string): PlayHistoryPage {
+    const offset = Math.max(0, parseInt(continuation ?? '0', 10) || 0);
+    const size = Math.max(1, Math.floor(limit) || 0);
+    const all = this.recent();
+    const entries = all.slice(offset, offset + size);
+    const next = offset + entries.length;
+    return { entries, continuation: next < all.length ? String(next) : undefined };
+  }
+
+  recent(limit?: number): PlayHistoryEntry[] {
+    const entries = Array.from(this._load().values()).reverse();
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
+  /** Items played more than once, most played first (ties go to the more recent). */
+  mostPlayed(limit: number): PlayHistoryEntry[] {
+    return this.recent()
+      .filter((entry) => entry.playCount > 1)
+      .sort((a, b) => b.playCount - a.playCount)
+      .slice(0, limit);
+  }
+
+  /** `ids` are `MediaItem.id`s (chapter tracks are recorded separately from their video). */
+  remove(ids: string[]): void {
+    const entries = this._load();
+    let changed = false;
+    for (const id of ids) changed = entries.delete(id) || changed;
+    if (changed) this._scheduleWrite();
+  }
+
+  clear(): void {
+    this._entries = new Map();
+    this._write();
+  }
+
+  /** Write pending changes immediately (call on dispose). */
+  flush(): void {
+    if (this._writeTimer) this._write();
+  }
+
+  private _scheduleWrite(): void {
+    if (this._writeTimer) return;
+    this._writeTimer = setTimeout(() => this._write(), WRITE_DELAY_MS);
+  }
+
+  private _write(): void {
+    if (this._writeTimer) {
+      clearTimeout(this._writeTimer);
+      this._writeTimer = null;
+    }
+    try {
+      this._host.writeFile(this._options.path, JSON.stringify(Array.from(this._load().values())));
+    } catch (e) {
+      this._host.log('Failed to save play history:', e);
+    }
+  }
+
+  private _load(): Map<string, PlayHistoryEntry> {
+    if (this._entries) return this._entries;
+    this._entries = new Map();
+    try {
+      if (this._host.fileExists(this._options.path)) {
+        const raw = this._host.readFile(this._options.path);
+        const stored = raw ? JSON.parse(raw) as PlayHistoryEntry[] : [];
+        stored.sort((a, b) => a.lastPlayedAt - b.lastPlayedAt);
+        for (const entry of stored) this._entries.set(entry.item.id, entry);
+      }
+    } catch (e) {
+      this._host.log('Play history unreadable, starting fresh:', e);
+    }
+    return this._entries;
+  }
+}
@@ -10,22 +10,111 @@
  *   module.exports = function createSource(host) { ... return source; }
  */
 
-import { Innertube, ClientType, Platform as YTPlatform } from 'youtubei.js';
+import { Innertube, ClientType, Constants, Parser, Platform as YTPlatform } from 'youtubei.js';
+import type { APIResponseTypes } from 'youtubei.js';
 import type { SourceHost } from '../types/host';
 import type { MediaSource } from '../types/source';
 import type {
   MediaItem,
   AudioPlaybackInfo,
+  AudioQualityPreference,
+  AudioFormatInfo,
   VideoPlaybackInfo,
   VideoQuality,
   MediaFeedSection,
   MediaFeedItem,
   MediaCollection,
+  CollectionPage,
+  PlayHistoryPage,
+  SubtitleTrack,
+  Lyrics,
+  RadioSeed,
+  RadioPage,
+  RadioOptions,
+  Chapter,
+  SkipSegment,
+  SkipSegmentCategory,
+  SearchFilter,
+  SearchOptions,
+  SearchResult,
+  SignInChallenge,
+  SignInStatus,
+  AccountInfo,
+  TrackRating,
   DownloadInfo,
+  BatchResolveOptions,
+  BatchResolveResult,
+  StreamClient,
+  ClientStatus,
+  SourceLocale,
+  DownloadTask,
 } from '../types/media';
 
 const SOURCE_ID = 'youtube';
 const YT_USER_AGENT = 'com.google.android.youtube/19.29.37 (Linux; U; Android 14) gzip';
+const SUBTITLE_FORMAT_KEY = 'subtitle_format';
+const LYRICS_DIR = 'youtube/lyrics';
+const CREDENTIALS_KEY = 'oauth_credentials';
+const AUDIO_QUALITY_KEY = 'audio_quality';
+const CLIENT_CHAIN_KEY = 'client_chain';
+const CLIENT_HEALTH_KEY = 'client_health';
+const PLAYER_DIR = 'youtube/players';
+const PLAYER_INDEX_KEY = 'player_cache_index';
+const PLAYER_MIRRORS_KEY = 'player_mirrors';
+const LOCALE_KEY = 'locale';
+const SKIP_SEGMENTS_ENDPOINT_KEY = 'skip_segments_endpoint';
+const MAX_CACHED_PLAYERS = 3;
+const EVAL_BUDGET_MS = 250;
+const BATCH_CONCURRENCY = 3;
+/** ~100 tracks per page; bounds `getCollection` on pathological playlists */
+const MAX_PLAYLIST_PAGES = 50;
+const DOWNLOADS_DIR = 'youtube/downloads';
+const WATCH_PROGRESS_KEY = 'watch_progress';
+const WATCH_HISTORY_SYNC_KEY = 'watch_history_sync';
+const MAX_WATCH_PROGRESS = 200;
+const PLAY_HISTORY_PATH = 'youtube/history.json';
+const MAX_PLAY_HISTORY = 500;
+/** Items in each of the home feed's local history sections */
+const HISTORY_SECTION_SIZE = 20;
+const PROGRESS_WRITE_INTERVAL_MS = 15 * 1000;
+/** Watch-time pings to YouTube are sent at most this often per video */
+const WATCH_TIME_SYNC_INTERVAL_MS = 60 * 1000;
+
+const CACHE_DIR = 'youtube/cache';
+const CACHE_MAX_ENTRIES = 200;
+const HOME_FEED_KEY = 'feed:home';
+const VIDEO_INFO_CACHE_SIZE = 5;
+/** Converted subtitle files remembered for reuse */
+const SUBTITLE_FILE_CACHE_SIZE = 50;
+/** Stream URLs are treated as expired this long before YouTube's deadline */
+const STREAM_EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+const CACHE_TTL = {
+  /** Fallback for stream URLs without an `expire` parameter */
+  stream: 60 * 60 * 1000,
+  album: 24 * 60 * 60 * 1000,
+  artist: 6 * 60 * 60 * 1000,
+  playlist: 60 * 60 * 1000,
+  feed: 30 * 60 * 1000,
+  suggestions: 6 * 60 * 60 * 1000,
+  skipSegments: 12 * 60 * 60 * 1000,
+  chapters: 24 * 60 * 60 * 1000,
+};
+
+const SEARCH_FILTER_TYPES: Partial<Record<SearchFilter, string>> = {
+  all: 'all',
+  songs: 'song',
+  videos: 'video',
+  albums: 'album',
+  artists: 'artist',
+  playlists: 'playlist',
+};
+
+/** Raw `/search` params for filters youtubei.js has no search type for */
+const SEARCH_FILTER_PARAMS: Partial<Record<SearchFilter, string>> = {
+  podcasts: 'EgWKAQJQAWoMEA4QChADEAQQCRAF',
+  episodes: 'EgWKAQJIAWoMEA4QChADEAQQCRAF',
+};
 
 import type {
   InnertubeFormat,
@@ -33,47 +122,46 @@ import type {
   VideoFormatEntry,
   VideoInfoCache,
   HlsManifestCache,
+  InnertubeCaptions,
+  InnertubeCaptionTrack,
   InnertubeText,
   InnertubeListItem,
+  InnertubeFlexColumn,
+  InnertubeBadge,
   InnertubeSection,
   InnertubeVideoResult,
+  InnertubeMusicSearch,
+  InnertubeShelfContinuation,
+  InnertubeAppendAction,
+  InnertubeEndpoint,
+  RawMusicShelf,
+  InnertubePlaylistPanel,
+  InnertubePlaylistPanelVideo,
   LockupViewModel,
   NextEndpointResult,
+  ChapterMarkerMap,
+  InnertubeTrackedInfo,
+  TimedLyricsData,
+  OAuthCredentials,
+  PendingSignIn,
 } from './types';
-
-// ─── Player Cacher (fetch-only, no file system) ─────────────────
-
-class PlayerCacher {
-  cache_dir = '';
-  private _fetch: typeof globalThis.fetch;
-
-  constructor(fetchFn: typeof globalThis.fetch) {
-    this._fetch = fetchFn;
-  }
-
-  async get(player_id: string): Promise<ArrayBuffer | undefined> {
-    const req = await this._fetch(
-      `https://raw.githubusercontent.com/lovegaoshi/my-express-api/refs/heads/ghactions/cachedPlayers/${player_id}`,
-    );
-    if (req.ok) return req.arrayBuffer();
-    const latestReq = await this._fetch(
-      'https://raw.githubusercontent.com/lovegaoshi/my-express-api/refs/heads/ghactions/cachedPlayers/latest',
-    );
-    const ghCache = await latestReq.text();
-    const req2 = await this._fetch(
-      `https://raw.githubusercontent.com/lovegaoshi/my-express-api/refs/heads/ghactions/cachedPlayers/${ghCache}`,
-    );
-    if (req2.ok) return req2.arrayBuffer();
-    const req3 = await this._fetch(
-      `https://ytb-cache.netlify.app/api?playerURL=${player_id}`,
-    );
-    if (req3.ok) return req3.arrayBuffer();
-    return undefined;
-  }
-
-  async set(): Promise<void> { }
-  async remove(): Promise<void> { }
-}
+import { parseTimedText, cuesToVtt, cuesToSrt } from './subtitles';
+import { parseLrc, lrcToLyrics, serializeLrc } from './lyrics';
+import { NotSignedInError, YouTubeSourceError, assertPlayable, codeForStatus, isTransportError, mostSpecificError, toSourceError, withSourceErrors } from './errors';
+import { PersistentCache } from './cache';
+import { describeAudioFormat, isAudioCodec, isAudioQuality, listAudioFormats, selectAudioFormat } from './formats';
+import { DownloadManager } from './downloads';
+import { ClientHealth, STREAM_CLIENTS, defaultClientChain, fetchPlayerInfo } from './clients';
+import { PlayerCache, DEFAULT_PLAYER_MIRRORS } from './player';
+import { SignatureEvaluator } from './evaluator';
+import { runBatch } from './batch';
+import type { BatchOutcome } from './batch';
+import { embedTags, tagsFromItem } from './tagging';
+import { chapterItems, chaptersFromDescription, chaptersFromMarkers } from './chapters';
+import { WatchProgressStore } from './progress';
+import { PlayHistory } from './history';
+import { DEFAULT_SKIP_CATEGORIES, DEFAULT_SPONSORBLOCK_ENDPOINT, fetchSkipSegments } from './sponsorblock';
+import type { AudioArtwork } from './tagging';
 
 // ─── Factory ────────────────────────────────────────────────────
 
@@ -83,19 +171,49 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
   const clientsMap: Record<string, Innertube> = {};
   const pendingMap: Record<string, Promise<Innertube>> = {};
 
-  function setupEval(): void {
-    YTPlatform.shim.eval = async (
-      code: string,
-      env: Record<string, string | number | boolean | null | undefined>,
-    ) => {
-      const properties: string[] = [];
-      if (env.n) properties.push(`n: exportedVars.nFunction("${env.n}")`);
-      if (env.sig) properties.push(`sig: exportedVars.sigFunction("${env.sig}")`);
-      const fullCode = `${code}\nreturn { ${properties.join(', ')} }`;
-      return new Function(fullCode)();
-    };
+  const evaluator = new SignatureEvaluator({
+    budgetMs: EVAL_BUDGET_MS,
+    maxPrograms: 4,
+    maxResults: 500,
+    log: host.log,
+  });
+  YTPlatform.shim.eval = (code, env) => evaluator.evaluate(code, env);
+
+  const playerCache = new PlayerCache(host, {
+    dir: PLAYER_DIR,
+    indexKey: PLAYER_INDEX_KEY,
+    maxPlayers: MAX_CACHED_PLAYERS,
+    mirrors: getPlayerMirrors,
+  });
+
+  function getPlayerMirrors(): string[] {
+    const raw = host.storage.get(PLAYER_MIRRORS_KEY);
+    if (raw) {
+      try {
+        const mirrors = JSON.parse(raw) as string[];
+        if (Array.isArray(mirrors) && mirrors.length > 0) return mirrors;
+      } catch { /* fall back to the defaults */ }
+    }
+    return [...DEFAULT_PLAYER_MIRRORS];
+  }
+
+  function getLocale(): SourceLocale {
+    const raw = host.storage.get(LOCALE_KEY);
+    if (!raw) return {};
+    try {
+      return normalizeLocale(JSON.parse(raw) as SourceLocale);
+    } catch {
+      return {};
+    }
+  }
+
+  function getSubtitleFormat(): 'vtt' | 'srt' {
+    return host.storage.get(SUBTITLE_FORMAT_KEY) === 'srt' ? 'srt' : 'vtt';
+  }
+
+  function getSkipSegmentsEndpoint(): string {
+    return host.storage.get(SKIP_SEGMENTS_ENDPOINT_KEY) || DEFAULT_SPONSORBLOCK_ENDPOINT;
   }
-  setupEval();
 
   function getInnertube(
     type: ClientType = ClientType.MWEB,
@@ -103,13 +221,24 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
   ): Promise<Innertube> {
     if (clientsMap[type] && !forceRecreate) return Promise.resolve(clientsMap[type]);
     if (type in pendingMap && !forceRecreate) return pendingMap[type];
-    pendingMap[type] = Innertube.create({
-      retrieve_player: false,
+    // Streams are resolved through the default client, so only it needs the player script
+    const wantsPlayer = type === ClientType.MWEB;
+    const locale = getLocale();
+    const create = (retrievePlayer: boolean) => Innertube.create({
+      retrieve_player: retrievePlayer,
       enable_session_cache: false,
       generate_session_locally: false,
       client_type: type,
-      cache: new PlayerCacher(host.fetch),
-    }).then((instance) => {
+      cache: playerCache,
+      lang: locale.language,
+      location: locale.region,
+    });
+    pendingMap[type] = create(wantsPlayer).catch((e) => {
+      if (!wantsPlayer) throw e;
+      host.log('Player script unavailable, stream URLs will not be deciphered:', e);
+      return create(false);
+    }).then(async (instance) => {
+      await restoreSession(instance);
       clientsMap[type] = instance;
       delete pendingMap[type];
       return instance;
@@ -117,21 +246,440 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     return pendingMap[type];
   }
 
-  // ── Video Info Cache ────────────────────────────────────────
+  /** Drop all clients so the next `getInnertube` call picks up the current session. */
+  function resetClients(): void {
+    Object.keys(clientsMap).forEach((key) => delete clientsMap[key]);
+    Object.keys(pendingMap).forEach((key) => delete pendingMap[key]);
+    _videoInfoCache.clear();
+  }
+
+  // ── Account Session ─────────────────────────────────────────
+
+  let _pendingSignIn: PendingSignIn | null = null;
+  /** Stored credentials, parsed on first use and kept in step with every write (`undefined` = not read yet) */
+  let _credentials: OAuthCredentials | null | undefined;
+
+  /** Cached; hot paths (e.g. progress reports) call this freely. Treat the result as read-only. */
+  function loadCredentials(): OAuthCredentials | null {
+    if (_credentials !== undefined) return _credentials;
+    const raw = host.storage.get(CREDENTIALS_KEY);
+    _credentials = null;
+    if (!raw) return null;
+    try {
+      _credentials = JSON.parse(raw) as OAuthCredentials;
+    } catch {
+      host.storage.delete(CREDENTIALS_KEY);
+    }
+    return _credentials;
+  }
+
+  function saveCredentials(credentials: OAuthCredentials): void {
+    _credentials = credentials;
+    host.storage.set(CREDENTIALS_KEY, JSON.stringify(credentials));
+  }
+
+  function clearCredentials(): void {
+    _credentials = null;
+    host.storage.delete(CREDENTIALS_KEY);
+  }
+
+  async function getSignedInClient(action: string): Promise<Innertube> {
+    if (!loadCredentials()) throw new NotSignedInError(action);
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    if (!innertube.session.logged_in) throw new NotSignedInError(action);
+    return innertube;
+  }
+
+  let _credentialRefresh: Promise<OAuthCredentials> | null = null;
+
+  /**
+   * Each client has its own youtubei.js OAuth2 instance that refreshes the
+   * access token when it expires. Route those refreshes through one shared
+   * request whose result every client adopts, and persist it once.
+   */
+  function shareTokenRefresh(instance: Innertube): void {
+    const oauth = instance.session.oauth;
+    const refresh = oauth.refreshAccessToken.bind(oauth);
+    oauth.refreshAccessToken = async () => {
+      _credentialRefresh ??= (async () => {
+        const current = loadCredentials();
+        // Another client may already have refreshed
+        if (current && Date.now() < new Date(current.expiry_date).getTime()) return current;
+        await refresh();
+        const updated = { ...oauth.oauth2_tokens, client: oauth.oauth2_tokens?.client ?? current?.client } as OAuthCredentials;
+        // Skip persisting if the user signed out meanwhile
+        if (loadCredentials()) saveCredentials(updated);
+        return updated;
+      })().finally(() => { _credentialRefresh = null; });
+      oauth.setTokens({ ...await _credentialRefresh });
+    };
+  }
+
+  async function restoreSession(instance: Innertube): Promise<void> {
+    const credentials = loadCredentials();
+    if (!credentials) return;
+    shareTokenRefresh(instance);
+    try {
+      // youtubei.js mutates the tokens it is given, so keep the cached object out of its reach
+      await instance.session.signIn({ ...credentials });
+    } catch (e) {
+      host.log('Failed to restore signed-in session:', e);
+    }
+  }
+
+  // ── Caches ──────────────────────────────────────────────────
 
-  let _videoInfoCache: VideoInfoCache | null = null;
+  const cache = new PersistentCache(host, { dir: CACHE_DIR, maxEntries: CACHE_MAX_ENTRIES });
+  let _homeFeedRefresh: Promise<MediaFeedSection[]> | null = null;
+
+  // Video info objects carry decipher methods, so they stay in memory only
+  const _videoInfoCache = new Map<string, VideoInfoCache>();
   let _hlsManifestCache: HlsManifestCache | null = null;
 
-  async function getCachedVideoInfo(contentId: string): Promise<{ info: InnertubeVideoInfo; innertube: Innertube }> {
-    if (_videoInfoCache?.contentId === contentId) {
-      return { info: _videoInfoCache.info, innertube: _videoInfoCache.innertube };
+  async function loadVideoInfo(contentId: string, client: StreamClient): Promise<{ info: InnertubeVideoInfo; innertube: Innertube }> {
+    const key = `${client}:${contentId}`;
+    const cached = _videoInfoCache.get(key);
+    _videoInfoCache.delete(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      _videoInfoCache.set(key, cached);
+      return { info: cached.info, innertube: cached.innertube };
     }
-    const innertube = await getInnertube();
-    const info = await innertube.getShortsVideoInfo(contentId, 'ANDROID') as unknown as InnertubeVideoInfo;
-    _videoInfoCache = { contentId, info, innertube };
+    const { info, innertube } = await withSourceErrors(`Failed to load video ${contentId}`, async () => {
+      const instance = await getInnertube();
+      return { info: await fetchPlayerInfo(instance, contentId, client), innertube: instance };
+    });
+    assertPlayable(info.playability_status, contentId);
+    if (!info.streaming_data) throw new YouTubeSourceError('UNAVAILABLE', `No streaming data for ${contentId}`);
+    const expires = info.streaming_data.expires?.getTime() ?? Date.now() + CACHE_TTL.stream;
+    _videoInfoCache.set(key, { contentId, client, info, innertube, expiresAt: expires - STREAM_EXPIRY_MARGIN_MS });
+    while (_videoInfoCache.size > VIDEO_INFO_CACHE_SIZE) _videoInfoCache.delete(_videoInfoCache.keys().next().value as string);
     return { info, innertube };
   }
 
+  async function getCachedVideoInfo(contentId: string): Promise<{ info: InnertubeVideoInfo; innertube: Innertube }> {
+    return resolveWithClients(contentId, async (info, innertube) => ({ info, innertube }));
+  }
+
+  // ── Subtitles ───────────────────────────────────────────────
+
+  /** `contentId:trackId.format` → cache file URI, or null for a track without cues */
+  const _subtitleFiles = new Map<string, string | null>();
+
+  async function loadCaptionTracks(contentId: string): Promise<Array<{ track: InnertubeCaptionTrack; isDefault?: boolean }>> {
+    let captions: InnertubeCaptions | undefined;
+    try {
+      captions = (await getCachedVideoInfo(contentId)).info.captions;
+    } catch (e) {
+      host.log('Caption lookup via client chain failed:', e);
+    }
+    if (!captions?.caption_tracks?.length) {
+      try {
+        const innertube = await getInnertube(ClientType.WEB);
+        const info = await innertube.getBasicInfo(contentId) as unknown as InnertubeVideoInfo;
+        captions = info.captions;
+      } catch (e) {
+        host.log('Caption lookup via WEB failed:', e);
+      }
+    }
+
+    const audioTrack = captions?.audio_tracks?.[captions.default_audio_track_index ?? 0];
+    const defaultIndex = audioTrack?.default_caption_track_index;
+    return (captions?.caption_tracks ?? []).map((track, index) => ({
+      track,
+      isDefault: defaultIndex === undefined ? undefined : defaultIndex === index,
+    }));
+  }
+
+  function captionTrackId(track: InnertubeCaptionTrack): string {
+    return track.vss_id ?? `${track.kind === 'asr' ? 'a.' : '.'}${track.language_code}`;
+  }
+
+  /** The track as listed; `url` is set only once its file has been written. */
+  function describeCaptionTrack(contentId: string, track: InnertubeCaptionTrack, isDefault: boolean | undefined, format: 'vtt' | 'srt'): SubtitleTrack {
+    const id = captionTrackId(track);
+    const label = track.name?.text ?? track.name?.toString?.() ?? track.language_code;
+    return {
+      id,
+      label: track.kind === 'asr' && !/\(.*\)/.test(label) ? `${label} (auto-generated)` : label,
+      language: track.language_code,
+      url: _subtitleFiles.get(`${contentId}:${id}.${format}`) ?? undefined,
+      format,
+      isDefault,
+    };
+  }
+
+  /** Fetch, convert and write one track; null when it has no cues. Written files are reused. */
+  async function writeSubtitleFile(contentId: string, track: InnertubeCaptionTrack, format: 'vtt' | 'srt'): Promise<string | null> {
+    const id = captionTrackId(track);
+    const key = `${contentId}:${id}.${format}`;
+    const written = _subtitleFiles.get(key);
+    if (written !== undefined) return written;
+
+    const res = await host.fetch(withQueryParam(track.base_url, 'fmt', 'json3'), { headers: { 'User-Agent': YT_USER_AGENT } });
+    if (!res.ok) throw new Error(`Caption fetch failed with status ${res.status}`);
+    const cues = parseTimedText(await res.text());
+    const uri = cues.length === 0 ? null : host.writeCacheFile(
+      `subs_${contentId}_${id.replace(/[^\w.-]/g, '_')}.${format}`,
+      format === 'srt' ? cuesToSrt(cues) : cuesToVtt(cues),
+    );
+    _subtitleFiles.set(key, uri);
+    while (_subtitleFiles.size > SUBTITLE_FILE_CACHE_SIZE) _subtitleFiles.delete(_subtitleFiles.keys().next().value as string);
+    return uri;
+  }
+
+  // ── Client Fallback ─────────────────────────────────────────
+
+  const clientHealth = new ClientHealth(host, CLIENT_HEALTH_KEY);
+
+  function configuredClientChain(): StreamClient[] {
+    const raw = host.storage.get(CLIENT_CHAIN_KEY);
+    if (raw) {
+      try {
+        const chain = (JSON.parse(raw) as string[])
+          .filter((client): client is StreamClient => STREAM_CLIENTS.includes(client as StreamClient));
+        if (chain.length > 0) return chain;
+      } catch { /* fall back to the default chain */ }
+    }
+    return defaultClientChain(host.platform);
+  }
+
+  /**
+   * Walk the client chain until `resolve` succeeds on a client's player
+   * response. Clients that failed before a later one worked are charged a
+   * failure; if every client fails the content itself is the likely cause,
+   * so only server errors are charged and the most specific error is thrown.
+   * Only a transport failure (offline) stops the walk early.
+   */
+  async function resolveWithClients<T>(
+    contentId: string,
+    resolve: (info: InnertubeVideoInfo, innertube: Innertube, client: StreamClient) => Promise<T>,
+  ): Promise<T> {
+    const failed: Array<{ client: StreamClient; error: YouTubeSourceError }> = [];
+    for (const client of clientHealth.order(configuredClientChain())) {
+      try {
+        const { info, innertube } = await loadVideoInfo(contentId, client);
+        const result = await resolve(info, innertube, client);
+        failed.forEach(({ client: c, error }) => clientHealth.recordFailure(c, error));
+        clientHealth.recordSuccess(client);
+        return result;
+      } catch (e) {
+        const error = toSourceError(e, `${client} client`);
+        // Offline: no other client will do any better
+        if (isTransportError(error)) throw error;
+        _videoInfoCache.delete(`${client}:${contentId}`);
+        host.log(`Client ${client} failed for ${contentId}:`, error.message);
+        failed.push({ client, error });
+      }
+    }
+    failed.filter(({ error }) => error.code === 'NETWORK').forEach(({ client, error }) => clientHealth.recordFailure(client, error));
+    throw mostSpecificError(failed.map((f) => f.error))
+      ?? new YouTubeSourceError('UNAVAILABLE', `No client could resolve ${contentId}`);
+  }
+
+  /** Best audio stream as a direct googlevideo URL, shared by playback and downloads. */
+  async function resolveDirectStream(contentId: string): Promise<DownloadInfo> {
+    const preference = getAudioPreference();
+    const key = `stream:${contentId}:${preference.quality}-${preference.codec}`;
+    const cached = cache.get<DownloadInfo>(key);
+    if (cached) return cached;
+
+    return dedupe(key, async () => {
+      const result = await resolveWithClients(contentId, (info, innertube) => directStreamFrom(info, innertube, preference));
+      cache.set(key, result, streamTtl(result.url));
+      return result;
+    });
+  }
+
+  async function directStreamFrom(
+    info: InnertubeVideoInfo,
+    innertube: Innertube,
+    preference: AudioQualityPreference,
+  ): Promise<DownloadInfo> {
+    const format = selectAudioFormat(info.streaming_data?.adaptive_formats ?? [], preference)
+      ?? info.chooseFormat({ quality: 'best', type: 'audio' });
+    const url = await format.decipher(innertube.session.player);
+    host.log('Got direct URL', `(${format.mime_type})`);
+    return {
+      url,
+      contentLength: format.content_length ?? 0,
+      headers: { 'User-Agent': YT_USER_AGENT },
+      expiresAt: parseUrlExpiry(url),
+      mimeType: format.mime_type,
+    };
+  }
+
+  const _inFlight = new Map<string, Promise<unknown>>();
+
+  /** Share one pending resolution between concurrent callers asking for the same key. */
+  function dedupe<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const pending = _inFlight.get(key) as Promise<T> | undefined;
+    if (pending) return pending;
+    const promise = task().finally(() => _inFlight.delete(key));
+    _inFlight.set(key, promise);
+    return promise;
+  }
+
+  function getAudioPreference(): AudioQualityPreference {
+    const raw = host.storage.get(AUDIO_QUALITY_KEY);
+    if (!raw) return normalizeAudioPreference(null);
+    try {
+      return normalizeAudioPreference(JSON.parse(raw) as Partial<AudioQualityPreference> | null);
+    } catch {
+      return normalizeAudioPreference(null);
+    }
+  }
+
+  /** Unknown qualities or codecs (bad input, stale storage) fall back to the platform defaults. */
+  function normalizeAudioPreference(preference: Partial<AudioQualityPreference> | null): AudioQualityPreference {
+    return {
+      quality: isAudioQuality(preference?.quality) ? preference.quality : 'max',
+      codec: isAudioCodec(preference?.codec) ? preference.codec : host.platform === 'ios' ? 'aac' : 'any',
+    };
+  }
+
+  function streamTtl(url: string): number {
+    const expiresAt = parseUrlExpiry(url) ?? Date.now() + CACHE_TTL.stream;
+    return expiresAt - STREAM_EXPIRY_MARGIN_MS - Date.now();
+  }
+
+  /** Forget every resolved stream for a content ID so the next lookup hits the network. */
+  function invalidateStream(contentId: string): void {
+    cache.deletePrefix(`stream:${contentId}:`);
+    cache.delete(`hls:${contentId}`);
+    for (const client of STREAM_CLIENTS) _videoInfoCache.delete(`${client}:${contentId}`);
+  }
+
+  /** Sign-in state changes what feeds and library collections contain. */
+  function invalidatePersonalizedCache(): void {
+    cache.deletePrefix('feed:');
+    cache.deletePrefix('collection:');
+  }
+
+  /** Titles, feeds and suggestions come back in the active language and region. */
+  function invalidateLocalizedCache(): void {
+    invalidatePersonalizedCache();
+    cache.deletePrefix('suggestions:');
+  }
+
+  function invalidatePlaylist(browseId: string): void {
+    const playlistId = toPlaylistId(browseId);
+    cache.delete(`collection:${playlistId}`);
+    cache.delete(`collection:VL${playlistId}`);
+  }
+
+  // ── Watch Progress ──────────────────────────────────────────
+
+  const progress = new WatchProgressStore(host, {
+    key: WATCH_PROGRESS_KEY,
+    maxEntries: MAX_WATCH_PROGRESS,
+    writeIntervalMs: PROGRESS_WRITE_INTERVAL_MS,
+  });
+
+  const history = new PlayHistory(host, { path: PLAY_HISTORY_PATH, maxEntries: MAX_PLAY_HISTORY });
+
+  /** Local sections shown above the remote home feed; empty until something was played. */
+  function historySections(): MediaFeedSection[] {
+    const toFeedItem = ({ item }: { item: MediaItem }): MediaFeedItem => ({
+      id: item.id,
+      title: item.title,
+      subtitle: item.artist ?? item.seriesTitle ?? '',
+      thumbnail: item.artwork,
+      type: item.type === 'episode' ? 'episode' : 'song',
+      trackId: item.contentId,
+    });
+    const sections: MediaFeedSection[] = [];
+    const recent = history.recent(HISTORY_SECTION_SIZE);
+    if (recent.length > 0) sections.push({ title: 'Recently played', type: 'RecentlyPlayed', items: recent.map(toFeedItem), sourceId: SOURCE_ID });
+    const most = history.mostPlayed(HISTORY_SECTION_SIZE);
+    if (most.length > 0) sections.push({ title: 'Most played', type: 'MostPlayed', items: most.map(toFeedItem), sourceId: SOURCE_ID });
+    return sections;
+  }
+
+  /** Per-video playback session with YouTube's stats endpoints, kept while the video is playing. */
+  let _watchSync: { contentId: string; info: Promise<InnertubeTrackedInfo>; lastPosition: number; lastSentAt: number } | null = null;
+
+  function isWatchHistorySyncEnabled(): boolean {
+    return host.storage.get(WATCH_HISTORY_SYNC_KEY) === '1' && loadCredentials() !== null;
+  }
+
+  /**
+   * Mirror local progress into the account's watch history: the video is
+   * added once per playback, then watch-time pings carry the position so
+   * other YouTube clients can resume too. Failures are logged, never thrown.
+   */
+  function syncWatchHistory(contentId: string, position: number, duration: number): void {
+    if (_watchSync?.contentId !== contentId) {
+      const info = getInnertube(ClientType.WEB).then(async (innertube) => {
+        const tracked = await innertube.getBasicInfo(contentId) as unknown as InnertubeTrackedInfo;
+        await tracked.addToWatchHistory();
+        return tracked;
+      });
+      info.catch((e) => host.log('Failed to add to watch history:', contentId, e));
+      _watchSync = { contentId, info, lastPosition: position, lastSentAt: Date.now() };
+      return;
+    }
+
+    const sync = _watchSync;
+    if (Date.now() - sync.lastSentAt < WATCH_TIME_SYNC_INTERVAL_MS) return;
+    const start = sync.lastPosition;
+    sync.lastPosition = position;
+    sync.lastSentAt = Date.now();
+    sync.info.then(async (tracked) => {
+      const url = tracked.page[0].playback_tracking?.videostats_watchtime_url;
+      if (!url) return;
+      await tracked.actions.stats(url.replace('https://s.', 'https://www.'), {
+        client_name: Constants.CLIENTS.WEB.NAME,
+        client_version: Constants.CLIENTS.WEB.VERSION,
+      }, {
+        cpn: tracked.cpn,
+        cmt: position.toFixed(3),
+        st: start.toFixed(3),
+        et: position.toFixed(3),
+        len: duration.toFixed(3),
+        state: 'playing',
+      });
+    }).catch((e) => host.log('Watch time sync failed:', contentId, e));
+  }
+
+  // ── Downloads ───────────────────────────────────────────────
+
+  const downloads = new DownloadManager(host, {
+    resolve: resolveDirectStream,
+    invalidate: invalidateStream,
+    getCollection: (browseId) => source.getCollection!(browseId),
+    embedMetadata,
+  }, DOWNLOADS_DIR);
+
+  async function embedMetadata(path: string, item: MediaItem): Promise<void> {
+    if (!host.readBinaryFile || !host.writeBinaryFile) {
+      throw new YouTubeSourceError('UNKNOWN', 'Host does not support binary file access');
+    }
+    return withSourceErrors(`Failed to tag ${path}`, async () => {
+      const artwork = await fetchArtwork(item.artwork);
+      const data = host.readBinaryFile!(path);
+      host.writeBinaryFile!(path, embedTags(data, tagsFromItem(item, artwork)));
+    });
+  }
+
+  /** Download cover art as JPEG/PNG (the formats MP4 `covr` accepts); undefined on failure. */
+  async function fetchArtwork(url: string): Promise<AudioArtwork | undefined> {
+    if (!url) return undefined;
+    // googleusercontent serves WebP unless asked otherwise; `-rj` forces JPEG
+    const jpegUrl = url.includes('googleusercontent.com')
+      ? url.replace(/=w\d+-h\d+[^/]*$/, '=w544-h544-l90-rj')
+      : url.replace('/vi_webp/', '/vi/').replace(/\.webp(\?|$)/, '.jpg$1');
+    try {
+      const res = await host.fetch(jpegUrl);
+      if (!res.ok) return undefined;
+      const mimeType = (res.headers.get('content-type') ?? '').split(';')[0].trim();
+      if (mimeType !== 'image/jpeg' && mimeType !== 'image/png') return undefined;
+      return { data: new Uint8Array(await res.arrayBuffer()), mimeType };
+    } catch (e) {
+      host.log('Artwork fetch failed:', e);
+      return undefined;
+    }
+  }
+
   // ── Source Implementation ───────────────────────────────────
 
   const source: MediaSource = {
@@ -146,7 +694,8 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
       suggestions: true,
       playlists: true,
       movies: false,
-      subtitles: false,
+      subtitles: true,
+      lyrics: true,
     },
 
     async initialize(): Promise<void> {
@@ -155,123 +704,222 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
         getInnertube(ClientType.WEB),
         getInnertube(ClientType.ANDROID_MUSIC),
       ]);
+      downloads.start();
     },
 
     async dispose(): Promise<void> {
-      Object.keys(clientsMap).forEach((key) => delete clientsMap[key]);
-      Object.keys(pendingMap).forEach((key) => delete pendingMap[key]);
+      downloads.stop();
+      cache.flush();
+      progress.flush();
+      history.flush();
+      _watchSync = null;
+      resetClients();
+      evaluator.clear();
+      _pendingSignIn = null;
     },
 
     // ── Audio ─────────────────────────────────────────────────
 
     async getAudioUrl(contentId: string): Promise<AudioPlaybackInfo> {
-      const innertube = await getInnertube();
-
-      if (host.platform === 'ios') {
-        try {
-          const basicInfo = await innertube.getBasicInfo(contentId, 'IOS' as 'IOS');
-          const hlsUrl = basicInfo.streaming_data?.hls_manifest_url;
-          if (hlsUrl) {
-            host.log('Got HLS URL for', contentId);
-            return { url: hlsUrl, headers: { 'User-Agent': YT_USER_AGENT } };
-          }
-        } catch (e) {
-          host.log('IOS client failed for', contentId, e);
-        }
-        host.log('No HLS URL for', contentId, ', trying ANDROID');
+      // Adaptive HLS always streams the best variant, so only use it when that is what the user wants
+      const preference = getAudioPreference();
+      if (host.platform === 'ios' && preference.quality === 'max') {
+        const key = `hls:${contentId}`;
+        const cached = cache.get<AudioPlaybackInfo>(key);
+        if (cached) return cached;
+        return dedupe(key, async () => {
+          // Only some clients return HLS; the others still provide a direct stream
+          const result = await resolveWithClients(contentId, async (info, innertube, client): Promise<AudioPlaybackInfo> => {
+            const hlsUrl = info.streaming_data?.hls_manifest_url;
+            if (hlsUrl) {
+              host.log('Got HLS URL for', contentId, `via ${client}`);
+              return { url: hlsUrl, headers: { 'User-Agent': YT_USER_AGENT }, expiresAt: parseUrlExpiry(hlsUrl) };
+            }
+            const { url, headers, expiresAt } = await directStreamFrom(info, innertube, preference);
+            return { url, headers, expiresAt };
+          });
+          cache.set(key, result, streamTtl(result.url));
+          return result;
+        });
       }
 
-      const info = await innertube.getShortsVideoInfo(contentId, 'ANDROID') as unknown as InnertubeVideoInfo;
-      const format = info.chooseFormat({ quality: 'best', type: 'audio' });
-      const url = await format.decipher(innertube.session.player);
-      host.log('Got direct URL for', contentId, `(${format.mime_type})`);
-      return { url, headers: { 'User-Agent': YT_USER_AGENT } };
+      const { url, headers, expiresAt } = await resolveDirectStream(contentId);
+      return { url, headers, expiresAt };
     },
 
     async getDirectAudioUrl(contentId: string): Promise<AudioPlaybackInfo> {
-      const innertube = await getInnertube();
-      const info = await innertube.getShortsVideoInfo(contentId, 'ANDROID') as unknown as InnertubeVideoInfo;
-      const format = info.chooseFormat({ quality: 'best', type: 'audio' });
-      const url = await format.decipher(innertube.session.player);
-      return { url, headers: { 'User-Agent': YT_USER_AGENT } };
+      const { url, headers, expiresAt } = await resolveDirectStream(contentId);
+      return { url, headers, expiresAt };
     },
 
     async getDownloadInfo(contentId: string): Promise<DownloadInfo> {
-      const innertube = await getInnertube();
-      const info = await innertube.getShortsVideoInfo(contentId, 'ANDROID') as unknown as InnertubeVideoInfo;
-      const format = info.chooseFormat({ quality: 'best', type: 'audio' });
-      const url = await format.decipher(innertube.session.player);
-      return {
-        url,
-        contentLength: format.content_length ?? 0,
-        headers: { 'User-Agent': YT_USER_AGENT },
+      return resolveDirectStream(contentId);
+    },
+
+    async resolveBatch(contentIds: string[], options: BatchResolveOptions = {}): Promise<BatchResolveResult[]> {
+      const resolve = options.kind === 'download'
+        ? (contentId: string) => source.getDownloadInfo(contentId)
+        : (contentId: string) => source.getAudioUrl(contentId);
+      const toResult = (outcome: BatchOutcome<AudioPlaybackInfo | DownloadInfo>): BatchResolveResult => {
+        if (outcome.ok) return { contentId: outcome.contentId, ok: true, info: outcome.value };
+        const error = outcome.cancelled
+          ? new YouTubeSourceError('CANCELLED', 'Batch resolution cancelled')
+          : toSourceError(outcome.error, `Failed to resolve ${outcome.contentId}`);
+        return { contentId: outcome.contentId, ok: false, error };
       };
+      const outcomes = await runBatch<AudioPlaybackInfo | DownloadInfo>(contentIds, resolve, {
+        concurrency: options.concurrency ?? BATCH_CONCURRENCY,
+        signal: options.signal,
+        onResult: options.onResult && ((outcome) => options.onResult!(toResult(outcome))),
+      });
+      return outcomes.map(toResult);
+    },
+
+    async refreshAudioUrl(contentId: string, options: { force?: boolean } = {}): Promise<AudioPlaybackInfo> {
+      // Cached entries already expire STREAM_EXPIRY_MARGIN_MS early, so a plain
+      // lookup never hands back a URL that is about to lapse.
+      if (options.force) invalidateStream(contentId);
+      return source.getAudioUrl(contentId);
+    },
+
+    async getAudioFormats(contentId: string): Promise<AudioFormatInfo[]> {
+      const { info } = await getCachedVideoInfo(contentId);
+      return listAudioFormats(info.streaming_data?.adaptive_formats ?? [])
+        .map(describeAudioFormat)
+        .sort((a, b) => b.bitrate - a.bitrate);
+    },
+
+    getAudioQuality(): AudioQualityPreference {
+      return getAudioPreference();
+    },
+
+    setAudioQuality(preference: AudioQualityPreference): void {
+      host.storage.set(AUDIO_QUALITY_KEY, JSON.stringify(normalizeAudioPreference(preference)));
+    },
+
+    getClientChain(): ClientStatus[] {
+      return clientHealth.status(configuredClientChain());
+    },
+
+    getPlayerMirrors(): string[] {
+      return getPlayerMirrors();
+    },
+
+    setPlayerMirrors(mirrors: string[] | null): void {
+      if (mirrors && mirrors.length > 0) host.storage.set(PLAYER_MIRRORS_KEY, JSON.stringify(mirrors));
+      else host.storage.delete(PLAYER_MIRRORS_KEY);
+    },
+
+    setClientChain(clients: StreamClient[] | null): void {
+      if (clients && clients.length > 0) {
+        host.storage.set(CLIENT_CHAIN_KEY, JSON.stringify(clients));
+      } else {
+        host.storage.delete(CLIENT_CHAIN_KEY);
+        clientHealth.reset();
+      }
+    },
+
+    // ── Locale ────────────────────────────────────────────────
+
+    getLocale(): SourceLocale {
+      return getLocale();
+    },
+
+    setLocale(locale: SourceLocale | null): void {
+      const normalized = normalizeLocale(locale ?? {});
+      if (normalized.language || normalized.region) host.storage.set(LOCALE_KEY, JSON.stringify(normalized));
+      else host.storage.delete(LOCALE_KEY);
+      // Clients carry hl/gl in their session context, so they have to be recreated
+      resetClients();
+      invalidateLocalizedCache();
+    },
+
+    // ── Offline Downloads ─────────────────────────────────────
+
+    enqueueDownload(item: MediaItem): DownloadTask {
+      return downloads.enqueue(item);
+    },
+
+    async enqueueCollectionDownload(browseId: string): Promise<DownloadTask[]> {
+      return downloads.enqueueCollection(browseId);
+    },
+
+    getDownloads(): DownloadTask[] {
+      return downloads.list();
+    },
+
+    retryDownload(contentId: string): void {
+      downloads.retry(contentId);
+    },
+
+    removeDownload(contentId: string): void {
+      downloads.remove(contentId);
+    },
+
+    onDownloadsChanged(callback: (tasks: DownloadTask[]) => void): () => void {
+      return downloads.subscribe(callback);
+    },
+
+    async embedMetadata(path: string, item: MediaItem): Promise<void> {
+      return embedMetadata(path, item);
     },
 
     // ── Video ─────────────────────────────────────────────────
 
     async getVideoInfo(contentId: string): Promise<VideoPlaybackInfo | null> {
       try {
-        const { info, innertube } = await getCachedVideoInfo(contentId);
-        const sd = info.streaming_data;
-        if (!sd) return null;
-
-        // iOS → HLS
-        if (host.platform === 'ios') {
-          let hlsUrl: string | undefined = sd.hls_manifest_url;
-
-          if (!hlsUrl) {
-            try {
-              const basicInfo = await innertube.getBasicInfo(contentId, 'IOS' as 'IOS');
-              hlsUrl = basicInfo.streaming_data?.hls_manifest_url;
-            } catch (e) {
-              host.log('IOS client getBasicInfo failed:', e);
+        // Walk the client chain: a client without usable video formats falls through to the next
+        return await resolveWithClients(contentId, async (info, innertube) => {
+          const sd = info.streaming_data;
+          if (!sd) throw new YouTubeSourceError('UNAVAILABLE', `No streaming data for ${contentId}`);
+
+          // iOS → HLS (the IOS client leads the default chain there)
+          if (host.platform === 'ios') {
+            const hlsUrl = sd.hls_manifest_url;
+            if (hlsUrl) {
+              let hlsQualities: VideoQuality[] = [];
+              try {
+                hlsQualities = await parseHlsQualities(hlsUrl, contentId);
+              } catch (e) {
+                host.log('Quality parsing failed, using Auto:', e);
+              }
+              return { url: hlsUrl, isDash: false, isHLS: true, hasAudio: true, qualities: hlsQualities, defaultHeight: 0 };
             }
           }
 
-          if (hlsUrl) {
-            let hlsQualities: VideoQuality[] = [];
+          // Android → DASH
+          if (host.platform === 'android') {
             try {
-              hlsQualities = await parseHlsQualities(hlsUrl, contentId);
+              const manifest = await info.toDash();
+              const uri = host.writeCacheFile('dash_manifest.mpd', manifest);
+              return { url: uri, isDash: true, isHLS: false, hasAudio: true, qualities: [], defaultHeight: 0 };
             } catch (e) {
-              host.log('Quality parsing failed, using Auto:', e);
+              host.log('DASH generation failed:', e);
             }
-            return { url: hlsUrl, isDash: false, isHLS: true, hasAudio: true, qualities: hlsQualities, defaultHeight: 0 };
           }
-        }
-
-        // Android → DASH
-        if (host.platform === 'android') {
-          try {
-            const manifest = await info.toDash();
-            const uri = host.writeCacheFile('dash_manifest.mpd', manifest);
-            return { url: uri, isDash: true, isHLS: false, hasAudio: true, qualities: [], defaultHeight: 0 };
-          } catch (e) {
-            host.log('DASH generation failed:', e);
-          }
-        }
 
-        // Fallback → progressive
-        const muxedFormats = (sd.formats ?? []).filter((f) => f.has_video && f.has_audio && f.mime_type?.startsWith('video/'));
-        const adaptiveVideoFormats = (sd.adaptive_formats ?? []).filter((f) => f.has_video && !f.has_audio && f.mime_type?.startsWith('video/'));
+          // Fallback → progressive
+          const muxedFormats = (sd.formats ?? []).filter((f) => f.has_video && f.has_audio && f.mime_type?.startsWith('video/'));
+          const adaptiveVideoFormats = (sd.adaptive_formats ?? []).filter((f) => f.has_video && !f.has_audio && f.mime_type?.startsWith('video/'));
 
-        const byHeight = new Map<number, VideoFormatEntry>();
-        for (const f of muxedFormats) { const h = f.height; if (h) byHeight.set(h, { format: f, hasAudio: true, label: f.quality_label || `${h}p` }); }
-        for (const f of adaptiveVideoFormats) { const h = f.height; if (h && !byHeight.has(h)) byHeight.set(h, { format: f, hasAudio: false, label: f.quality_label || `${h}p` }); }
+          const byHeight = new Map<number, VideoFormatEntry>();
+          for (const f of muxedFormats) { const h = f.height; if (h) byHeight.set(h, { format: f, hasAudio: true, label: f.quality_label || `${h}p` }); }
+          for (const f of adaptiveVideoFormats) { const h = f.height; if (h && !byHeight.has(h)) byHeight.set(h, { format: f, hasAudio: false, label: f.quality_label || `${h}p` }); }
 
-        const qualities: VideoQuality[] = [];
-        for (const [height, entry] of byHeight) qualities.push({ label: entry.label, height, hasAudio: entry.hasAudio });
-        qualities.sort((a, b) => a.height - b.height);
+          const qualities: VideoQuality[] = [];
+          for (const [height, entry] of byHeight) qualities.push({ label: entry.label, height, hasAudio: entry.hasAudio });
+          qualities.sort((a, b) => a.height - b.height);
 
-        if (qualities.length === 0) return null;
+          if (qualities.length === 0) throw new YouTubeSourceError('UNAVAILABLE', `No video formats for ${contentId}`);
 
-        const defaultQ = qualities.reduce((best, q) => Math.abs(q.height - 720) < Math.abs(best.height - 720) ? q : best);
-        const entry = byHeight.get(defaultQ.height)!;
-        const url = await entry.format.decipher(innertube.session.player);
-        return { url, isDash: false, isHLS: false, hasAudio: entry.hasAudio, qualities, defaultHeight: defaultQ.height };
+          const defaultQ = qualities.reduce((best, q) => Math.abs(q.height - 720) < Math.abs(best.height - 720) ? q : best);
+          const entry = byHeight.get(defaultQ.height)!;
+          const url = await entry.format.decipher(innertube.session.player);
+          return { url, isDash: false, isHLS: false, hasAudio: entry.hasAudio, qualities, defaultHeight: defaultQ.height };
+        });
       } catch (e) {
         host.log('Failed to fetch video info:', e);
-        return null;
+        throw toSourceError(e, 'Failed to fetch video info');
       }
     },
 
@@ -287,7 +935,9 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
         const adaptive = (sd.adaptive_formats ?? []).find((f) => f.has_video && !f.has_audio && f.height === targetHeight && f.mime_type?.startsWith('video/'));
         if (adaptive) return { url: await adaptive.decipher(innertube.session.player), hasAudio: false };
         return null;
-      } catch { return null; }
+      } catch (e) {
+        throw toSourceError(e, `Failed to resolve ${targetHeight}p stream`);
+      }
     },
 
     getFilteredHlsUrl(height: number): string | null {
@@ -318,8 +968,10 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     // ── Search ────────────────────────────────────────────────
 
     async search(query: string): Promise<MediaItem[]> {
-      const innertube = await getInnertube(ClientType.WEB);
-      const results = await innertube.search(query, { type: 'video' });
+      const results = await withSourceErrors('Search failed', async () => {
+        const innertube = await getInnertube(ClientType.WEB);
+        return innertube.search(query, { type: 'video' });
+      });
       const videos = (results.videos ?? []) as InnertubeVideoResult[];
       return videos.map((video): MediaItem | null => {
         const videoId = video.id;
@@ -341,6 +993,25 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
       }).filter((t): t is MediaItem => t !== null);
     },
 
+    async searchPage(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+      const filter = options.filter ?? 'all';
+      const results = await withSourceErrors('Search failed', async () => {
+        const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+        const params = SEARCH_FILTER_PARAMS[filter];
+        if (params) return fetchFilteredSearch(innertube, query, params);
+        const music = innertube.music as unknown as { search(query: string, filters: { type: string }): Promise<InnertubeMusicSearch> };
+        return music.search(query, { type: SEARCH_FILTER_TYPES[filter] ?? 'all' });
+      });
+      const shelves = (results.contents ?? []).filter((shelf) => shelf.type === 'MusicShelf');
+      // Only filtered searches page; the unfiltered "all" view is a fixed set of shelves
+      const continuation = filter === 'all' ? undefined : shelves[0]?.continuation;
+      return buildSearchResult(shelves.flatMap((shelf) => shelf.contents ?? []), continuation);
+    },
+
+    async searchMore(continuation: string): Promise<SearchResult> {
+      return withSourceErrors('Search failed', () => fetchSearchContinuation(continuation));
+    },
+
     async getSearchSuggestions(query: string): Promise<string[]> {
       try {
         const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
@@ -357,143 +1028,420 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
           }
         }
         return suggestions.filter(Boolean);
-      } catch { return []; }
+      } catch (e) {
+        throw toSourceError(e, 'Search suggestions failed');
+      }
     },
 
     // ── Feed ──────────────────────────────────────────────────
 
     async getHomeFeed(): Promise<MediaFeedSection[]> {
+      // Local history sections are rebuilt on every call and never cached with the remote feed
+      const local = historySections();
+      const cached = cache.peek<MediaFeedSection[]>(HOME_FEED_KEY);
+      if (cached) {
+        // Stale-while-revalidate: serve the old feed now, refresh in the background
+        if (cached.stale) refreshHomeFeed().catch((e) => host.log('Home feed refresh failed:', e));
+        return [...local, ...cached.value];
+      }
       try {
-        const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
-        const music = innertube.music as unknown as { getHomeFeed?(): Promise<{ sections?: InnertubeSection[] }> };
-        if (!music?.getHomeFeed) return [];
+        return [...local, ...await refreshHomeFeed()];
+      } catch (e) {
+        // Offline or blocked: the local sections are still a usable feed
+        if (local.length === 0) throw e;
+        host.log('Home feed unavailable, showing local history only:', e);
+        return local;
+      }
+    },
 
-        const feed = await music.getHomeFeed();
-        const sections: MediaFeedSection[] = [];
+    // ── Collections ───────────────────────────────────────────
+
+    async getCollection(browseId: string): Promise<MediaCollection> {
+      const key = `collection:${browseId}`;
+      const cached = cache.get<MediaCollection>(key);
+      if (cached) return cached;
+      const collection = await withSourceErrors(`Failed to load ${browseId}`, () => fetchCollection(browseId));
+      const ttl = collection.collectionType === 'album' ? CACHE_TTL.album
+        : collection.collectionType === 'artist' ? CACHE_TTL.artist
+        : CACHE_TTL.playlist;
+      cache.set(key, collection, ttl);
+      return collection;
+    },
+
+    async getCollectionPage(browseId: string): Promise<MediaCollection> {
+      const cached = cache.get<MediaCollection>(`collection:${browseId}`);
+      if (cached) return cached;
+      // Albums and artists fit in one response
+      if (browseId.startsWith('MPRE') || isArtistBrowseId(browseId)) return source.getCollection!(browseId);
+      return withSourceErrors(`Failed to load ${browseId}`, () =>
+        isPodcastBrowseId(browseId) ? fetchPodcast(browseId, 1) : fetchPlaylist(browseId, 1));
+    },
+
+    async getCollectionMore(continuation: string): Promise<CollectionPage> {
+      return withSourceErrors('Failed to load more items', () => fetchPlaylistContinuation(continuation));
+    },
+
+    // ── Suggestions ───────────────────────────────────────────
+
+    async getSuggestions(contentId: string): Promise<MediaItem[]> {
+      const key = `suggestions:${contentId}`;
+      const cached = cache.get<MediaItem[]>(key);
+      if (cached) return cached;
+      const tracks = await fetchSuggestions(contentId);
+      if (tracks.length > 0) cache.set(key, tracks, CACHE_TTL.suggestions);
+      return tracks;
+    },
+
+    // ── Radio ─────────────────────────────────────────────────
+
+    async startRadio(seed: RadioSeed, options: RadioOptions = {}): Promise<RadioPage> {
+      return withSourceErrors('Failed to start radio', async () => {
+        const exclude = new Set(options.exclude ?? []);
+        let params: { videoId?: string; playlistId: string };
+        if (seed.type === 'track') {
+          params = { videoId: seed.id, playlistId: `RDAMVM${seed.id}` };
+          exclude.add(seed.id);
+        } else if (seed.type === 'playlist') {
+          params = { playlistId: `RDAMPL${toPlaylistId(seed.id)}` };
+        } else {
+          params = await getArtistRadioParams(seed.id);
+        }
+        return fetchRadioPage(params, exclude);
+      });
+    },
+
+    async continueRadio(continuation: string, options: RadioOptions = {}): Promise<RadioPage> {
+      return withSourceErrors('Failed to load more radio tracks', async () => {
+        const separator = continuation.indexOf(':');
+        if (separator < 0) return { items: [] };
+        const playlistId = continuation.slice(0, separator);
+        const token = continuation.slice(separator + 1);
+        return fetchRadioPage({ playlistId, continuation: token }, new Set(options.exclude ?? []));
+      });
+    },
+
+    // ── Subtitles ─────────────────────────────────────────────
+
+    async getSubtitles(contentId: string): Promise<SubtitleTrack[]> {
+      const format = getSubtitleFormat();
+      // Only the default track is downloaded here; the rest load on demand via getSubtitleTrack
+      return Promise.all((await loadCaptionTracks(contentId)).map(async ({ track, isDefault }) => {
+        const subtitle = describeCaptionTrack(contentId, track, isDefault, format);
+        if (isDefault && !subtitle.url) {
+          try {
+            subtitle.url = await writeSubtitleFile(contentId, track, format) ?? undefined;
+          } catch (e) {
+            host.log('Failed to load caption track:', e);
+          }
+        }
+        return subtitle;
+      }));
+    },
+
+    async getSubtitleTrack(contentId: string, trackId: string): Promise<SubtitleTrack> {
+      return withSourceErrors(`Failed to load subtitles ${trackId}`, async () => {
+        const entry = (await loadCaptionTracks(contentId)).find(({ track }) => captionTrackId(track) === trackId);
+        if (!entry) throw new YouTubeSourceError('UNAVAILABLE', `No subtitle track ${trackId} for ${contentId}`);
+        const format = getSubtitleFormat();
+        const url = await writeSubtitleFile(contentId, entry.track, format);
+        if (!url) throw new YouTubeSourceError('UNAVAILABLE', `Subtitle track ${trackId} has no cues`);
+        return { ...describeCaptionTrack(contentId, entry.track, entry.isDefault, format), url };
+      });
+    },
+
+    getSubtitleFormat(): 'vtt' | 'srt' {
+      return getSubtitleFormat();
+    },
+
+    setSubtitleFormat(format: 'vtt' | 'srt' | null): void {
+      // VTT is the default, so only SRT needs storing
+      if (format === 'srt') host.storage.set(SUBTITLE_FORMAT_KEY, 'srt');
+      else host.storage.delete(SUBTITLE_FORMAT_KEY);
+    },
+
+    // ── Account ───────────────────────────────────────────────
+
+    async beginSignIn(): Promise<SignInChallenge> {
+      return withSourceErrors('Failed to start sign-in', async () => {
+        const innertube = await getInnertube(ClientType.TV);
+        const oauth = innertube.session.oauth;
+        const client = await oauth.getClientID();
+        oauth.client_id = client;
+        const code = await oauth.getDeviceAndUserCode();
+        const expiresAt = Date.now() + code.expires_in * 1000;
+        _pendingSignIn = { deviceCode: code.device_code, client, expiresAt };
+        return { userCode: code.user_code, verificationUrl: code.verification_url, expiresAt, interval: code.interval };
+      });
+    },
+
+    async pollSignIn(): Promise<SignInStatus> {
+      return withSourceErrors('Failed to check sign-in', async () => {
+        const pending = _pendingSignIn;
+        if (!pending) return loadCredentials() ? 'signed_in' : 'expired';
+        if (Date.now() > pending.expiresAt) {
+          _pendingSignIn = null;
+          return 'expired';
+        }
+
+        const innertube = await getInnertube(ClientType.TV);
+        const res = await host.fetch(innertube.session.oauth.AUTH_SERVER_TOKEN_URL.toString(), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            client_id: pending.client.client_id,
+            client_secret: pending.client.client_secret,
+            code: pending.deviceCode,
+            grant_type: 'http://oauth.net/grant_type/device/1.0',
+          }),
+        });
+        const data = await res.json() as { error?: string; access_token?: string; refresh_token?: string; expires_in?: number; scope?: string; token_type?: string };
+
+        if (data.error === 'authorization_pending' || data.error === 'slow_down') return 'pending';
+        if (data.error || !data.access_token || !data.refresh_token) {
+          host.log('Sign-in failed:', data.error);
+          _pendingSignIn = null;
+          return data.error === 'expired_token' ? 'expired' : 'denied';
+        }
+
+        saveCredentials({
+          access_token: data.access_token,
+          refresh_token: data.refresh_token,
+          expiry_date: new Date(Date.now() + (data.expires_in ?? 0) * 1000).toISOString(),
+          scope: data.scope,
+          token_type: data.token_type,
+          client: pending.client,
+        });
+        _pendingSignIn = null;
+        resetClients();
+        invalidatePersonalizedCache();
+        return 'signed_in';
+      });
+    },
+
+    async signOut(): Promise<void> {
+      _pendingSignIn = null;
+      if (!loadCredentials()) return;
+      try {
+        const innertube = await getInnertube(ClientType.TV);
+        if (innertube.session.logged_in) await innertube.session.signOut();
+      } catch (e) {
+        host.log('Failed to revoke credentials:', e);
+      }
+      clearCredentials();
+      resetClients();
+      invalidatePersonalizedCache();
+    },
 
-        for (const section of feed?.sections ?? []) {
-          if ((section.type ?? '') === 'MusicTasteBuilderShelf') continue;
-          const title = section?.header?.title?.text ?? '';
-          if (!title) continue;
+    async getAccountInfo(): Promise<AccountInfo | null> {
+      return withSourceErrors('Failed to load account info', async () => {
+        if (!loadCredentials()) return null;
+        const innertube = await getInnertube(ClientType.WEB);
+        if (!innertube.session.logged_in) return null;
+        const info = await innertube.account.getInfo();
+        const item = (info.contents?.contents ?? []).find((entry) => entry.type === 'AccountItem') as
+          { account_name?: InnertubeText; account_byline?: InnertubeText; channel_handle?: InnertubeText; account_photo?: Array<{ url?: string }> } | undefined;
+        if (!item) return null;
+        return {
+          name: item.account_name?.text ?? '',
+          handle: item.channel_handle?.text || item.account_byline?.text || undefined,
+          photo: getBestThumbnail(item.account_photo) || undefined,
+        };
+      });
+    },
+
+    async getLibrary(): Promise<MediaFeedSection[]> {
+      return withSourceErrors('Failed to load library', async () => {
+        if (!loadCredentials()) return [];
+        const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+        if (!innertube.session.logged_in) return [];
+        const music = innertube.music as unknown as { getLibrary(): Promise<{ contents?: Array<InnertubeSection & { items?: InnertubeListItem[] }> }> };
+        const library = await music.getLibrary();
 
+        const sections: MediaFeedSection[] = [];
+        for (const section of library.contents ?? []) {
           const items: MediaFeedItem[] = [];
-          for (const item of section?.contents ?? []) {
+          for (const item of section.items ?? section.contents ?? []) {
             try {
-              const parsed = parseMusicItem(item);
+              const parsed = item.type === 'MusicResponsiveListItem' ? parseMusicListFeedItem(item) : parseMusicItem(item);
               if (parsed) items.push(parsed);
             } catch { /* skip malformed items */ }
           }
+          const title = section.header?.title?.text ?? section.title?.text ?? 'Library';
           if (items.length > 0) sections.push({ title, type: section.type ?? 'Unknown', items, sourceId: SOURCE_ID });
         }
         return sections;
-      } catch (e) {
-        host.log('getHomeFeed error:', e);
-        return [];
-      }
+      });
     },
 
-    // ── Collections ───────────────────────────────────────────
+    async rateTrack(contentId: string, rating: TrackRating): Promise<void> {
+      return withSourceErrors('Failed to rate track', async () => {
+        const innertube = await getSignedInClient('rate tracks');
+        if (rating === 'like') await innertube.interact.like(contentId);
+        else if (rating === 'dislike') await innertube.interact.dislike(contentId);
+        else await innertube.interact.removeRating(contentId);
+      });
+    },
 
-    async getCollection(browseId: string): Promise<MediaCollection> {
-      if (browseId.startsWith('MPRE')) return fetchAlbum(browseId);
+    async createPlaylist(title: string, contentIds: string[] = []): Promise<string> {
+      return withSourceErrors('Failed to create playlist', async () => {
+        const innertube = await getSignedInClient('create playlists');
+        const result = await innertube.playlist.create(title, contentIds);
+        if (!result.success || !result.playlist_id) {
+          throw new YouTubeSourceError(codeForStatus(result.status_code) ?? 'UNKNOWN', `Playlist creation failed with status ${result.status_code}`);
+        }
+        return `VL${result.playlist_id}`;
+      });
+    },
 
-      const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
-      const music = innertube.music as unknown as { getPlaylist(id: string): Promise<Record<string, unknown>> };
-      const playlist = await music.getPlaylist(browseId);
-      const header = playlist.header as { title?: InnertubeText; subtitle?: InnertubeText; thumbnail?: { contents?: Array<{ url?: string }> }; thumbnails?: Array<{ url?: string }> } | undefined;
-      const title = header?.title?.text ?? (playlist.title as string) ?? 'Playlist';
-      const subtitle = header?.subtitle?.text ?? '';
-      const thumbnail = extractHeaderThumbnail(playlist);
-
-      const collectionItems: MediaItem[] = [];
-      const contents = (playlist.contents ?? []) as InnertubeListItem[];
-      for (const item of contents) {
-        try { const t = parseMusicListItem(item); if (t) collectionItems.push(t); } catch { /* skip */ }
-      }
-      return { title, subtitle, thumbnail, items: collectionItems, collectionType: 'playlist' };
+    async deletePlaylist(browseId: string): Promise<void> {
+      return withSourceErrors('Failed to delete playlist', async () => {
+        const innertube = await getSignedInClient('delete playlists');
+        const result = await innertube.playlist.delete(toPlaylistId(browseId));
+        if (!result.success) {
+          throw new YouTubeSourceError(codeForStatus(result.status_code) ?? 'UNKNOWN', `Playlist deletion failed with status ${result.status_code}`);
+        }
+        invalidatePlaylist(browseId);
+      });
     },
 
-    // ── Suggestions ───────────────────────────────────────────
+    async addToPlaylist(browseId: string, contentIds: string[]): Promise<void> {
+      return withSourceErrors('Failed to add to playlist', async () => {
+        if (contentIds.length === 0) return;
+        const innertube = await getSignedInClient('edit playlists');
+        await innertube.playlist.addVideos(toPlaylistId(browseId), contentIds);
+        invalidatePlaylist(browseId);
+      });
+    },
 
-    async getSuggestions(contentId: string): Promise<MediaItem[]> {
-      // Strategy 1: /next endpoint
+    async removeFromPlaylist(browseId: string, contentIds: string[]): Promise<void> {
+      return withSourceErrors('Failed to remove from playlist', async () => {
+        if (contentIds.length === 0) return;
+        const innertube = await getSignedInClient('edit playlists');
+        await innertube.playlist.removeVideos(toPlaylistId(browseId), contentIds);
+        invalidatePlaylist(browseId);
+      });
+    },
+
+    async movePlaylistItem(browseId: string, contentId: string, afterContentId: string): Promise<void> {
+      return withSourceErrors('Failed to move playlist item', async () => {
+        if (contentId === afterContentId) return;
+        const innertube = await getSignedInClient('edit playlists');
+        await innertube.playlist.moveVideo(toPlaylistId(browseId), contentId, afterContentId);
+        invalidatePlaylist(browseId);
+      });
+    },
+
+    // ── Lyrics ────────────────────────────────────────────────
+
+    async getLyrics(contentId: string): Promise<Lyrics | null> {
+      const cachePath = `${LYRICS_DIR}/${contentId}.lrc`;
       try {
-        const innertube = await getInnertube(ClientType.WEB);
-        const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, string>): Promise<{ data: Record<string, unknown> }> };
-        const response = await actions.execute('/next', { videoId: contentId, client: 'WEB' });
-        const secondaryResults = (
-          response?.data?.contents as Record<string, unknown> | undefined
-        )?.twoColumnWatchNextResults as Record<string, unknown> | undefined;
-        const results = (
-          (secondaryResults?.secondaryResults as Record<string, unknown>)?.secondaryResults as Record<string, unknown>
-        )?.results as NextEndpointResult[] | undefined;
-
-        if (Array.isArray(results)) {
-          const tracks: MediaItem[] = [];
-          for (const item of results) {
-            try {
-              if (item.lockupViewModel) {
-                const t = parseLockupViewModel(item.lockupViewModel);
-                if (t && t.id !== contentId) tracks.push(t);
-                continue;
-              }
-              if (item.compactVideoRenderer?.videoId) {
-                const renderer = item.compactVideoRenderer;
-                tracks.push({
-                  id: renderer.videoId!,
-                  sourceId: SOURCE_ID,
-                  type: 'track',
-                  title: renderer.title?.simpleText ?? renderer.title?.runs?.[0]?.text ?? 'Unknown',
-                  artist: renderer.longBylineText?.runs?.[0]?.text ?? renderer.shortBylineText?.runs?.[0]?.text ?? 'Unknown',
-                  artwork: getBestThumbnail(renderer.thumbnail?.thumbnails),
-                  duration: parseDuration(renderer.lengthText?.simpleText),
-                  contentId: renderer.videoId!,
-                });
-              }
-            } catch { /* skip */ }
-          }
-          if (tracks.length > 0) return tracks.slice(0, 20);
-        }
-      } catch { /* fall through to search */ }
+        if (host.fileExists(cachePath)) return lrcToLyrics(parseLrc(host.readFile(cachePath)));
+      } catch (e) {
+        host.log('Failed to read cached lyrics:', e);
+      }
 
-      // Strategy 2: search fallback
+      let lyrics: Lyrics | null = null;
       try {
-        const innertube = await getInnertube(ClientType.WEB);
-        let searchQuery = contentId;
+        lyrics = await fetchTimedLyrics(contentId);
+      } catch (e) {
+        host.log('Timed lyrics lookup failed for', contentId, e);
+      }
+
+      if (!lyrics) {
         try {
-          const info = await innertube.getBasicInfo(contentId);
-          const bi = info.basic_info;
-          if (bi?.title) searchQuery = `${bi.title} ${bi.channel?.name ?? bi.author ?? ''}`.trim();
-        } catch { /* use contentId */ }
-        const sr = await innertube.search(searchQuery, { type: 'video' });
-        const videos = ((sr as unknown as { results?: InnertubeVideoResult[] }).results ?? (sr.videos ?? [])) as InnertubeVideoResult[];
-        return videos
-          .filter((v) => {
-            const id = v.id ?? v.video_id;
-            return id && id !== contentId;
-          })
-          .slice(0, 20)
-          .map((v): MediaItem | null => {
-            const id = v.id ?? v.video_id;
-            if (!id) return null;
-            const rawTitle = v.title;
-            const title = typeof rawTitle === 'string'
-              ? rawTitle
-              : (rawTitle as InnertubeText)?.text ?? 'Unknown';
-            const rawAuthor = v.author;
-            const artist = typeof rawAuthor === 'string'
-              ? rawAuthor
-              : (rawAuthor as { name?: string })?.name ?? 'Unknown';
-            return {
-              id, sourceId: SOURCE_ID, type: 'track', title, artist,
-              artwork: v.best_thumbnail?.url ?? v.thumbnails?.[0]?.url ?? '',
-              duration: typeof v.duration === 'number' ? v.duration : ((v.duration as { seconds?: number })?.seconds ?? 0),
-              contentId: id,
-            };
-          })
-          .filter((t): t is MediaItem => t !== null);
-      } catch { /* give up */ }
-      return [];
+          const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+          const shelf = await innertube.music.getLyrics(contentId);
+          const text = shelf?.description?.text ?? '';
+          if (text) lyrics = { text, source: shelf?.footer?.text || undefined };
+        } catch (e) {
+          host.log('No lyrics for', contentId, e);
+        }
+      }
+
+      if (lyrics) {
+        try { host.writeFile(cachePath, serializeLrc(lyrics)); } catch (e) { host.log('Failed to cache lyrics:', e); }
+      }
+      return lyrics;
+    },
+
+    // ── Chapters ──────────────────────────────────────────────
+
+    async getChapters(contentId: string): Promise<Chapter[]> {
+      const key = `chapters:${contentId}`;
+      const cached = cache.get<Chapter[]>(key);
+      if (cached) return cached;
+      const chapters = await withSourceErrors('Failed to load chapters', () => fetchChapters(contentId));
+      cache.set(key, chapters, CACHE_TTL.chapters);
+      return chapters;
+    },
+
+    async expandChapters(item: MediaItem): Promise<MediaItem[]> {
+      const chapters = await source.getChapters!(item.contentId);
+      return chapters.length > 1 ? chapterItems(item, chapters) : [item];
+    },
+
+    // ── Skip Segments ─────────────────────────────────────────
+
+    async getSkipSegments(contentId: string, categories: SkipSegmentCategory[] = [...DEFAULT_SKIP_CATEGORIES]): Promise<SkipSegment[]> {
+      const key = `skip:${contentId}:${[...categories].sort().join(',')}`;
+      const cached = cache.get<SkipSegment[]>(key);
+      if (cached) return cached;
+      const segments = await withSourceErrors('Failed to load skip segments', () =>
+        fetchSkipSegments(host, getSkipSegmentsEndpoint(), contentId, categories));
+      cache.set(key, segments, CACHE_TTL.skipSegments);
+      return segments;
+    },
+
+    getSkipSegmentsEndpoint(): string {
+      return getSkipSegmentsEndpoint();
+    },
+
+    setSkipSegmentsEndpoint(endpoint: string | null): void {
+      const trimmed = endpoint?.trim();
+      if (trimmed && !/^https?:\/\//i.test(trimmed)) throw new YouTubeSourceError('UNKNOWN', `Invalid skip segments endpoint: ${trimmed}`);
+      if (trimmed) host.storage.set(SKIP_SEGMENTS_ENDPOINT_KEY, trimmed);
+      else host.storage.delete(SKIP_SEGMENTS_ENDPOINT_KEY);
+      cache.deletePrefix('skip:');
+    },
+
+    // ── Play History ──────────────────────────────────────────
+
+    reportPlay(item: MediaItem): void {
+      history.record(item);
+    },
+
+    getPlayHistory(options: { limit?: number; continuation?: string } = {}): PlayHistoryPage {
+      return history.page(options.limit, options.continuation);
+    },
+
+    removeFromPlayHistory(ids: string[]): void {
+      history.remove(ids);
+    },
+
+    clearPlayHistory(): void {
+      history.clear();
+    },
+
+    // ── Watch Progress ────────────────────────────────────────
+
+    reportProgress(contentId: string, positionSeconds: number, durationSeconds: number): void {
+      const update = progress.report(contentId, positionSeconds, durationSeconds);
+      if (update !== 'ignored' && isWatchHistorySyncEnabled()) syncWatchHistory(contentId, positionSeconds, durationSeconds);
+    },
+
+    getWatchProgress(contentId: string): number {
+      return progress.get(contentId);
+    },
+
+    getWatchHistorySync(): boolean {
+      return host.storage.get(WATCH_HISTORY_SYNC_KEY) === '1';
+    },
+
+    setWatchHistorySync(enabled: boolean): void {
+      if (enabled) host.storage.set(WATCH_HISTORY_SYNC_KEY, '1');
+      else host.storage.delete(WATCH_HISTORY_SYNC_KEY);
+      _watchSync = null;
     },
   };
 
@@ -501,6 +1449,318 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
 
   // ─── Internal Helpers ───────────────────────────────────────
 
+  async function fetchCollection(browseId: string): Promise<MediaCollection> {
+    if (browseId.startsWith('MPRE')) return fetchAlbum(browseId);
+    if (isArtistBrowseId(browseId)) return fetchArtist(browseId);
+    if (isPodcastBrowseId(browseId)) return fetchPodcast(browseId);
+    return fetchPlaylist(browseId);
+  }
+
+  /** Fetch a playlist and follow up to `maxPages` pages of it. */
+  async function fetchPlaylist(browseId: string, maxPages = MAX_PLAYLIST_PAGES): Promise<MediaCollection> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const music = innertube.music as unknown as { getPlaylist(id: string): Promise<Record<string, unknown>> };
+    const playlist = await music.getPlaylist(browseId);
+    const header = playlist.header as { title?: InnertubeText; subtitle?: InnertubeText; thumbnail?: { contents?: Array<{ url?: string }> }; thumbnails?: Array<{ url?: string }> } | undefined;
+    const title = header?.title?.text ?? (playlist.title as string) ?? 'Playlist';
+    const subtitle = header?.subtitle?.text ?? '';
+    const thumbnail = extractHeaderThumbnail(playlist);
+
+    // The shelf's own continuation, or the ContinuationItem newer responses end the list with
+    const memo = (playlist.page as { contents_memo?: { get(type: string): unknown[] | undefined } } | undefined)?.contents_memo;
+    const shelf = memo?.get('MusicPlaylistShelf')?.[0] as InnertubeShelfContinuation | undefined;
+    const first = toPlaylistPage(
+      (playlist.contents ?? []) as InnertubeListItem[],
+      shelf?.continuation ?? (memo?.get('ContinuationItem')?.[0] as InnertubeListItem | undefined)?.endpoint?.payload?.token,
+    );
+
+    const collectionItems = first.items;
+    let continuation = first.continuation;
+    for (let page = 1; continuation && page < maxPages; page++) {
+      const next = await fetchPlaylistContinuation(continuation);
+      collectionItems.push(...next.items);
+      continuation = next.continuation;
+    }
+    if (continuation && maxPages === MAX_PLAYLIST_PAGES) {
+      host.log(`Playlist ${browseId} truncated at ${collectionItems.length} items (${MAX_PLAYLIST_PAGES} pages)`);
+    }
+    return { title, subtitle, thumbnail, items: collectionItems, collectionType: 'playlist', continuation };
+  }
+
+  async function fetchPlaylistContinuation(continuation: string): Promise<CollectionPage> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: APIResponseTypes.IRawResponse }> };
+    const response = await actions.execute('/browse', { continuation, client: 'YTMUSIC' });
+    const page = Parser.parseResponse(response.data);
+    const shelf = page.continuation_contents as unknown as InnertubeShelfContinuation | undefined;
+    if (shelf?.contents) return toPlaylistPage(shelf.contents, shelf.continuation);
+    const appended = page.on_response_received_actions?.[0] as unknown as InnertubeAppendAction | undefined;
+    return toPlaylistPage(appended?.contents ?? []);
+  }
+
+  /**
+   * A podcast show. youtubei.js's MusicShelf keeps only song rows, so the
+   * episode shelf is read from the raw response and parsed here.
+   */
+  async function fetchPodcast(browseId: string, maxPages = MAX_PLAYLIST_PAGES): Promise<MediaCollection> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: APIResponseTypes.IRawResponse }> };
+    const response = await actions.execute('/browse', { browseId, client: 'YTMUSIC' });
+    const page = Parser.parseResponse(response.data);
+    const header = page.contents_memo?.get('MusicResponsiveHeader')?.[0] as unknown as {
+      title?: InnertubeText;
+      strapline_text_one?: InnertubeText;
+      description?: { description?: InnertubeText } | null;
+      thumbnail?: { contents?: Array<{ url?: string }> };
+    } | undefined;
+    const title = header?.title?.text ?? 'Podcast';
+    const author = header?.strapline_text_one?.text ?? '';
+    const thumbnail = getBestThumbnail(header?.thumbnail?.contents);
+
+    const shelf = findDeep(response.data, 'musicShelfRenderer') as RawMusicShelf | undefined;
+    const first = toPlaylistPage(
+      Parser.parseArray(shelf?.contents) as unknown as InnertubeListItem[],
+      shelf?.continuations?.[0]?.nextContinuationData?.continuation,
+    );
+    const items = first.items;
+    let continuation = first.continuation;
+    for (let pageIndex = 1; continuation && pageIndex < maxPages; pageIndex++) {
+      const next = await fetchPlaylistContinuation(continuation);
+      items.push(...next.items);
+      continuation = next.continuation;
+    }
+    for (const episode of items) {
+      episode.seriesId = browseId;
+      episode.seriesTitle = title;
+      if (author) episode.artist = author;
+      if (!episode.artwork) episode.artwork = thumbnail;
+    }
+    return {
+      title,
+      subtitle: author,
+      thumbnail,
+      description: header?.description?.description?.text || undefined,
+      items,
+      collectionType: 'series',
+      browseId,
+      continuation,
+    };
+  }
+
+  function toPlaylistPage(rawItems: InnertubeListItem[], continuation?: string): CollectionPage {
+    const items: MediaItem[] = [];
+    for (const item of rawItems) {
+      if (item.type === 'ContinuationItem') {
+        continuation ??= item.endpoint?.payload?.token;
+        continue;
+      }
+      try {
+        const t = item.type === 'MusicMultiRowListItem' ? parseEpisodeItem(item) : parseMusicListItem(item);
+        if (t) items.push(t);
+      } catch { /* skip */ }
+    }
+    return { items, continuation: continuation || undefined };
+  }
+
+  function refreshHomeFeed(): Promise<MediaFeedSection[]> {
+    if (_homeFeedRefresh) return _homeFeedRefresh;
+    _homeFeedRefresh = fetchHomeFeed()
+      .then((sections) => {
+        if (sections.length > 0) cache.set(HOME_FEED_KEY, sections, CACHE_TTL.feed);
+        return sections;
+      })
+      .finally(() => { _homeFeedRefresh = null; });
+    return _homeFeedRefresh;
+  }
+
+  async function fetchHomeFeed(): Promise<MediaFeedSection[]> {
+    try {
+      const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+      const music = innertube.music as unknown as { getHomeFeed?(): Promise<{ sections?: InnertubeSection[] }> };
+      if (!music?.getHomeFeed) return [];
+
+      const feed = await music.getHomeFeed();
+      const sections: MediaFeedSection[] = [];
+
+      for (const section of feed?.sections ?? []) {
+        if ((section.type ?? '') === 'MusicTasteBuilderShelf') continue;
+        const title = section?.header?.title?.text ?? '';
+        if (!title) continue;
+
+        const items: MediaFeedItem[] = [];
+        for (const item of section?.contents ?? []) {
+          try {
+            const parsed = parseMusicItem(item);
+            if (parsed) items.push(parsed);
+          } catch { /* skip malformed items */ }
+        }
+        if (items.length > 0) sections.push({ title, type: section.type ?? 'Unknown', items, sourceId: SOURCE_ID });
+      }
+      return sections;
+    } catch (e) {
+      host.log('getHomeFeed error:', e);
+      throw toSourceError(e, 'Failed to load home feed');
+    }
+  }
+
+  async function fetchRadioPage(
+    params: { videoId?: string; playlistId: string; continuation?: string },
+    exclude: Set<string>,
+  ): Promise<RadioPage> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: APIResponseTypes.IRawResponse }> };
+    const response = await actions.execute('/next', { ...params, client: 'YTMUSIC' });
+    const page = Parser.parseResponse(response.data);
+    const panel = (params.continuation
+      ? page.continuation_contents
+      : page.contents_memo?.get('PlaylistPanel')?.[0]) as unknown as InnertubePlaylistPanel | undefined;
+
+    const items: MediaItem[] = [];
+    for (const node of panel?.contents ?? []) {
+      try {
+        const video = node.type === 'PlaylistPanelVideoWrapper' ? node.primary : node;
+        const t = video ? parsePlaylistPanelVideo(video) : null;
+        if (!t || exclude.has(t.contentId)) continue;
+        exclude.add(t.contentId);
+        items.push(t);
+      } catch { /* skip */ }
+    }
+    const playlistId = panel?.playlist_id || params.playlistId;
+    return { items, continuation: panel?.continuation ? `${playlistId}:${panel.continuation}` : undefined };
+  }
+
+  async function getArtistRadioParams(browseId: string): Promise<{ videoId?: string; playlistId: string }> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: Record<string, unknown> }> };
+    const response = await actions.execute('/browse', { browseId, client: 'YTMUSIC' });
+    const radio = findWatchPlaylistEndpoint(response?.data);
+    if (radio) return { playlistId: radio };
+
+    // No radio button on the page: seed from the artist's top song instead
+    const artist = await source.getCollection!(browseId);
+    const top = artist.items[0];
+    if (!top) throw new YouTubeSourceError('UNAVAILABLE', `No radio available for artist ${browseId}`);
+    return { videoId: top.contentId, playlistId: `RDAMVM${top.contentId}` };
+  }
+
+  function findWatchPlaylistEndpoint(node: unknown): string | null {
+    if (!node || typeof node !== 'object') return null;
+    if (Array.isArray(node)) {
+      for (const entry of node) { const id = findWatchPlaylistEndpoint(entry); if (id) return id; }
+      return null;
+    }
+    const endpoint = (node as { watchPlaylistEndpoint?: { playlistId?: string } }).watchPlaylistEndpoint;
+    if (endpoint?.playlistId?.startsWith('RD')) return endpoint.playlistId;
+    for (const value of Object.values(node)) { const id = findWatchPlaylistEndpoint(value); if (id) return id; }
+    return null;
+  }
+
+  /** Uploader (or auto-generated) chapter markers, else a tracklist in the description. */
+  async function fetchChapters(contentId: string): Promise<Chapter[]> {
+    const { info } = await getCachedVideoInfo(contentId);
+    const duration = info.basic_info?.duration || undefined;
+    try {
+      const innertube = await getInnertube(ClientType.WEB);
+      const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, string>): Promise<{ data: Record<string, unknown> }> };
+      const response = await actions.execute('/next', { videoId: contentId, client: 'WEB' });
+      const markers = chaptersFromMarkers(findDeep(response?.data, 'markersMap') as ChapterMarkerMap[] | undefined, duration);
+      if (markers.length > 0) return markers;
+    } catch (e) {
+      host.log('Chapter markers unavailable for', contentId, e);
+    }
+    return chaptersFromDescription(info.basic_info?.short_description, duration);
+  }
+
+  async function fetchSuggestions(contentId: string): Promise<MediaItem[]> {
+    // Strategy 1: YouTube Music radio for the track
+    try {
+      const radio = await fetchRadioPage({ videoId: contentId, playlistId: `RDAMVM${contentId}` }, new Set([contentId]));
+      if (radio.items.length > 0) return radio.items;
+    } catch (e) {
+      host.log('Radio suggestions failed for', contentId, e);
+    }
+
+    // Strategy 2: /next endpoint
+    try {
+      const innertube = await getInnertube(ClientType.WEB);
+      const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, string>): Promise<{ data: Record<string, unknown> }> };
+      const response = await actions.execute('/next', { videoId: contentId, client: 'WEB' });
+      const secondaryResults = (
+        response?.data?.contents as Record<string, unknown> | undefined
+      )?.twoColumnWatchNextResults as Record<string, unknown> | undefined;
+      const results = (
+        (secondaryResults?.secondaryResults as Record<string, unknown>)?.secondaryResults as Record<string, unknown>
+      )?.results as NextEndpointResult[] | undefined;
+
+      if (Array.isArray(results)) {
+        const tracks: MediaItem[] = [];
+        for (const item of results) {
+          try {
+            if (item.lockupViewModel) {
+              const t = parseLockupViewModel(item.lockupViewModel);
+              if (t && t.id !== contentId) tracks.push(t);
+              continue;
+            }
+            if (item.compactVideoRenderer?.videoId) {
+              const renderer = item.compactVideoRenderer;
+              tracks.push({
+                id: renderer.videoId!,
+                sourceId: SOURCE_ID,
+                type: 'track',
+                title: renderer.title?.simpleText ?? renderer.title?.runs?.[0]?.text ?? 'Unknown',
+                artist: renderer.longBylineText?.runs?.[0]?.text ?? renderer.shortBylineText?.runs?.[0]?.text ?? 'Unknown',
+                artwork: getBestThumbnail(renderer.thumbnail?.thumbnails),
+                duration: parseDuration(renderer.lengthText?.simpleText),
+                playCount: parseCount(renderer.viewCountText?.simpleText),
+                contentId: renderer.videoId!,
+              });
+            }
+          } catch { /* skip */ }
+        }
+        if (tracks.length > 0) return tracks.slice(0, 20);
+      }
+    } catch { /* fall through to search */ }
+
+    // Strategy 3: search fallback
+    try {
+      const innertube = await getInnertube(ClientType.WEB);
+      let searchQuery = contentId;
+      try {
+        const info = await innertube.getBasicInfo(contentId);
+        const bi = info.basic_info;
+        if (bi?.title) searchQuery = `${bi.title} ${bi.channel?.name ?? bi.author ?? ''}`.trim();
+      } catch { /* use contentId */ }
+      const sr = await innertube.search(searchQuery, { type: 'video' });
+      const videos = ((sr as unknown as { results?: InnertubeVideoResult[] }).results ?? (sr.videos ?? [])) as InnertubeVideoResult[];
+      return videos
+        .filter((v) => {
+          const id = v.id ?? v.video_id;
+          return id && id !== contentId;
+        })
+        .slice(0, 20)
+        .map((v): MediaItem | null => {
+          const id = v.id ?? v.video_id;
+          if (!id) return null;
+          const rawTitle = v.title;
+          const title = typeof rawTitle === 'string'
+            ? rawTitle
+            : (rawTitle as InnertubeText)?.text ?? 'Unknown';
+          const rawAuthor = v.author;
+          const artist = typeof rawAuthor === 'string'
+            ? rawAuthor
+            : (rawAuthor as { name?: string })?.name ?? 'Unknown';
+          return {
+            id, sourceId: SOURCE_ID, type: 'track', title, artist,
+            artwork: v.best_thumbnail?.url ?? v.thumbnails?.[0]?.url ?? '',
+            duration: typeof v.duration === 'number' ? v.duration : ((v.duration as { seconds?: number })?.seconds ?? 0),
+            contentId: id,
+          };
+        })
+        .filter((t): t is MediaItem => t !== null);
+    } catch { /* give up */ }
+    return [];
+  }
+
   async function parseHlsQualities(hlsUrl: string, contentId: string): Promise<VideoQuality[]> {
     const res = await host.fetch(hlsUrl, { headers: { 'User-Agent': YT_USER_AGENT } });
     const text = await res.text();
@@ -526,11 +1786,110 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     return Array.from(byHeight.values()).sort((a, b) => a.height - b.height);
   }
 
+  async function fetchFilteredSearch(innertube: Innertube, query: string, params: string): Promise<InnertubeMusicSearch> {
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: APIResponseTypes.IRawResponse }> };
+    const response = await actions.execute('/search', { query, params, client: 'YTMUSIC' });
+    const page = Parser.parseResponse(response.data);
+    return { contents: (page.contents_memo?.get('MusicShelf') ?? []) as unknown as InnertubeSection[] };
+  }
+
+  async function fetchSearchContinuation(continuation: string): Promise<SearchResult> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: APIResponseTypes.IRawResponse }> };
+    const response = await actions.execute('/search', { continuation, client: 'YTMUSIC' });
+    const page = Parser.parseResponse(response.data);
+    const shelf = page.continuation_contents as unknown as InnertubeShelfContinuation | undefined;
+    return buildSearchResult(shelf?.contents ?? [], shelf?.continuation);
+  }
+
+  function buildSearchResult(rawItems: InnertubeListItem[], continuation?: string): SearchResult {
+    const items: MediaItem[] = [];
+    const collections: MediaFeedItem[] = [];
+    for (const item of rawItems) {
+      try {
+        if (item.type === 'MusicTwoRowItem') {
+          const parsed = parseMusicItem(item);
+          if (parsed) collections.push(parsed);
+          continue;
+        }
+        if (item.type !== 'MusicResponsiveListItem') continue;
+        const itemType = item.item_type ?? '';
+        if (itemType === 'album' || itemType === 'artist' || itemType === 'playlist' || itemType === 'library_artist' || itemType === 'podcast_show') {
+          const parsed = parseMusicListFeedItem(item);
+          if (parsed) collections.push(parsed);
+        } else {
+          const t = parseMusicListItem(item);
+          if (t) items.push(t);
+        }
+      } catch { /* skip malformed items */ }
+    }
+    return {
+      items,
+      collections,
+      continuation,
+      loadMore: continuation ? () => fetchSearchContinuation(continuation) : undefined,
+    };
+  }
+
+  async function fetchTimedLyrics(contentId: string): Promise<Lyrics | null> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const actions = innertube.actions as unknown as { execute(endpoint: string, params: Record<string, unknown>): Promise<{ data: Record<string, unknown> }> };
+
+    const next = await actions.execute('/next', { videoId: contentId });
+    const lyricsBrowseId = findLyricsBrowseId(next?.data);
+    if (!lyricsBrowseId) return null;
+
+    const page = await actions.execute('/browse', { browseId: lyricsBrowseId });
+    const data = findDeep(page?.data, 'lyricsData') as TimedLyricsData | undefined;
+    const entries = data?.timedLyricsData ?? [];
+    if (entries.length > 0) {
+      const lines = entries.map((entry) => ({
+        start: Number(entry.cueRange?.startTimeMilliseconds ?? 0) / 1000,
+        end: entry.cueRange?.endTimeMilliseconds ? Number(entry.cueRange.endTimeMilliseconds) / 1000 : undefined,
+        text: (entry.lyricLine ?? '').replace(/^♪$/, ''),
+      }));
+      return { text: lines.map((l) => l.text).join('\n'), source: data?.sourceMessage || undefined, lines };
+    }
+
+    // No synced lyrics: plain text lives in a description shelf
+    const shelf = findDeep(page?.data, 'musicDescriptionShelfRenderer') as { description?: InnertubeText; footer?: InnertubeText } | undefined;
+    const text = shelf?.description?.runs?.map((r) => r.text).join('') ?? '';
+    if (!text) return null;
+    const source = shelf?.footer?.runs?.map((r) => r.text).join('') ?? '';
+    return { text, source: source || undefined };
+  }
+
+  function findLyricsBrowseId(node: unknown): string | null {
+    if (!node || typeof node !== 'object') return null;
+    if (Array.isArray(node)) {
+      for (const entry of node) { const id = findLyricsBrowseId(entry); if (id) return id; }
+      return null;
+    }
+    const browse = (node as { browseEndpoint?: { browseId?: string; browseEndpointContextSupportedConfigs?: { browseEndpointContextMusicConfig?: { pageType?: string } } } }).browseEndpoint;
+    if (browse?.browseId && browse.browseEndpointContextSupportedConfigs?.browseEndpointContextMusicConfig?.pageType === 'MUSIC_PAGE_TYPE_TRACK_LYRICS') {
+      return browse.browseId;
+    }
+    for (const value of Object.values(node)) { const id = findLyricsBrowseId(value); if (id) return id; }
+    return null;
+  }
+
+  function findDeep(node: unknown, key: string): unknown {
+    if (!node || typeof node !== 'object') return undefined;
+    if (Array.isArray(node)) {
+      for (const entry of node) { const found = findDeep(entry, key); if (found !== undefined) return found; }
+      return undefined;
+    }
+    const record = node as Record<string, unknown>;
+    if (key in record) return record[key];
+    for (const value of Object.values(record)) { const found = findDeep(value, key); if (found !== undefined) return found; }
+    return undefined;
+  }
+
   async function fetchAlbum(browseId: string): Promise<MediaCollection> {
     const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
     const music = innertube.music as unknown as { getAlbum(id: string): Promise<Record<string, unknown>> };
     const album = await music.getAlbum(browseId);
-    const header = album.header as { title?: InnertubeText; subtitle?: InnertubeText; strapline_text_one?: InnertubeText; thumbnail?: { contents?: Array<{ url?: string }> }; thumbnails?: Array<{ url?: string }> } | undefined;
+    const header = album.header as { title?: InnertubeText; subtitle?: InnertubeText; strapline_text_one?: InnertubeText; author?: { name?: string; channel_id?: string }; thumbnail?: { contents?: Array<{ url?: string }> }; thumbnails?: Array<{ url?: string }> } | undefined;
     const title = header?.title?.text ?? (album.title as string) ?? 'Album';
     const subtitle = header?.subtitle?.text ?? '';
     const thumbnail = extractHeaderThumbnail(album);
@@ -541,25 +1900,36 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
       []
     ) as InnertubeListItem[];
 
-    // Extract album artist
-    let albumArtist = header?.strapline_text_one?.text ?? '';
-    if (!albumArtist && header?.subtitle?.runs) {
-      for (const run of header.subtitle.runs) {
-        const ep = run?.endpoint?.payload;
-        if (ep?.browseId && !ep.browseId.startsWith('MPRE')) { albumArtist = run.text; break; }
+    // Extract album artist: linked runs first, since the surrounding text is localized
+    let albumArtist = header?.strapline_text_one?.text || header?.author?.name || '';
+    let albumArtistId = header?.author?.channel_id;
+    const runs = [...(header?.strapline_text_one?.runs ?? []), ...(header?.subtitle?.runs ?? [])];
+    for (const run of runs) {
+      const ep = run?.endpoint?.payload;
+      if (ep?.browseId && isArtistBrowseId(ep.browseId)) {
+        albumArtist ||= run.text;
+        albumArtistId ??= ep.browseId;
+        break;
       }
     }
     if (!albumArtist && subtitle.includes('•')) {
-      const parts = subtitle.split('•').map((s) => s.trim());
-      albumArtist = parts.find((p) => p && !/^\d{4}$/.test(p) && !/^\d+\s*(song|track|bài)/i.test(p) && !/^album$/i.test(p)) ?? '';
+      // "<type> • <artist> • <year>": skip the type label and anything numeric (year, track count)
+      const parts = subtitle.split('•').map((s) => s.trim()).slice(1);
+      albumArtist = parts.find((p) => p && !/^\d/.test(p)) ?? '';
     }
 
+    const year = parseYear(subtitle.split('•').map((s) => s.trim()).find((p) => /^\d{4}$/.test(p)));
+
     const collectionItems: MediaItem[] = [];
     for (const item of rawItems) {
       try {
         const t = parseMusicListItem(item, albumArtist);
         if (t) {
           if (!t.artwork && thumbnail) t.artwork = thumbnail;
+          t.album ??= title;
+          t.albumId ??= browseId;
+          t.artistId ??= albumArtistId;
+          t.year ??= year;
           collectionItems.push(t);
         }
       } catch { /* skip */ }
@@ -567,6 +1937,84 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     return { title, subtitle, thumbnail, items: collectionItems, collectionType: 'album' };
   }
 
+  async function fetchArtist(browseId: string): Promise<MediaCollection> {
+    const innertube = await getInnertube(ClientType.ANDROID_MUSIC);
+    const music = innertube.music as unknown as { getArtist(id: string): Promise<Record<string, unknown>> };
+    const artist = await music.getArtist(browseId);
+    const header = artist.header as { title?: InnertubeText; subtitle?: InnertubeText; description?: InnertubeText; foreground_thumbnail?: Array<{ url?: string }> } | undefined;
+    const title = header?.title?.text ?? 'Artist';
+    const subtitle = header?.subtitle?.text ?? '';
+    const description = header?.description?.text || undefined;
+    const thumbnail = extractHeaderThumbnail(artist) || getBestThumbnail(header?.foreground_thumbnail);
+
+    const items: MediaItem[] = [];
+    const children: MediaCollection[] = [];
+    for (const section of (artist.sections ?? []) as InnertubeSection[]) {
+      try {
+        const sectionTitle = section.title?.text ?? section.header?.title?.text ?? '';
+        const tracks: MediaItem[] = [];
+        const entries: MediaCollection[] = [];
+        for (const item of section.contents ?? []) {
+          try {
+            if (item.type === 'MusicTwoRowItem') {
+              const feedItem = parseMusicItem(item);
+              if (!feedItem) continue;
+              if (feedItem.trackId) {
+                const t = parseMusicListItem(item, title);
+                if (t) tracks.push(t);
+              } else if (feedItem.browseId) {
+                entries.push({
+                  title: feedItem.title,
+                  subtitle: feedItem.subtitle,
+                  thumbnail: feedItem.thumbnail,
+                  browseId: feedItem.browseId,
+                  collectionType: feedItem.type === 'album' || feedItem.type === 'artist' || feedItem.type === 'series' ? feedItem.type : 'playlist',
+                  items: [],
+                });
+              }
+              continue;
+            }
+            const t = parseMusicListItem(item, title);
+            if (t) tracks.push(t);
+          } catch { /* skip */ }
+        }
+
+        // The first song shelf doubles as the artist's top-level track list
+        if (section.type === 'MusicShelf' && items.length === 0) items.push(...tracks);
+        if (tracks.length === 0 && entries.length === 0) continue;
+        children.push({ title: sectionTitle, subtitle: '', thumbnail: '', items: tracks, children: entries.length > 0 ? entries : undefined });
+      } catch { /* skip malformed sections */ }
+    }
+    return { title, subtitle, thumbnail, description, items, children, collectionType: 'artist', browseId };
+  }
+
+  /** Language tags are kept as given (`pt-BR`); regions are upper-cased country codes. */
+  function normalizeLocale(locale: SourceLocale): SourceLocale {
+    const language = locale.language?.trim();
+    const region = locale.region?.trim().toUpperCase();
+    return {
+      language: language && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(language) ? language : undefined,
+      region: region && /^[A-Z]{2}$/.test(region) ? region : undefined,
+    };
+  }
+
+  /** Playlist edit endpoints take the bare playlist ID, not the `VL…` browse ID. */
+  function toPlaylistId(browseId: string): string {
+    return browseId.startsWith('VL') ? browseId.slice(2) : browseId;
+  }
+
+  function isArtistBrowseId(browseId: string): boolean {
+    return browseId.startsWith('UC') || browseId.startsWith('MPLAUC');
+  }
+
+  function isPodcastBrowseId(browseId: string): boolean {
+    return browseId.startsWith('MPSP');
+  }
+
+  function isEpisodeEndpoint(endpoint?: InnertubeEndpoint): boolean {
+    return endpoint?.payload?.watchEndpointMusicSupportedConfigs?.watchEndpointMusicConfig?.musicVideoType === 'MUSIC_VIDEO_TYPE_PODCAST_EPISODE';
+  }
+
   function extractHeaderThumbnail(obj: Record<string, unknown>): string {
     try {
       const header = obj.header as Record<string, unknown> | undefined;
@@ -588,29 +2036,96 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
         const col = flexCols[0].title ?? flexCols[0].text;
         title = col?.text ?? col?.runs?.[0]?.text ?? '';
       }
-      if (flexCols[1]) {
+      // Parsed artist runs exclude the album/duration the second column may also hold
+      if (Array.isArray(item.artists)) artist = item.artists.map((a) => a?.name ?? a?.text ?? '').filter(Boolean).join(', ');
+      if (!artist && flexCols[1]) {
         const col = flexCols[1].title ?? flexCols[1].text;
         artist = col?.text ?? '';
         if (!artist && col?.runs) artist = col.runs.map((r) => r.text).filter(Boolean).join(', ');
       }
-      if (!artist) {
-        if (Array.isArray(item.artists)) artist = item.artists.map((a) => a?.name ?? a?.text ?? '').filter(Boolean).join(', ');
-        else if (item.author?.name) artist = item.author.name;
-      }
+      if (!artist && item.author?.name) artist = item.author.name;
       const videoId = item.overlay?.content?.endpoint?.payload?.videoId ?? item.id ?? '';
       if (!videoId || !title) return null;
-      return { id: videoId, sourceId: SOURCE_ID, type: 'track', title, artist: artist || fallbackArtist || 'Unknown', artwork: deepExtractThumbnail(item), duration: 0, contentId: videoId };
+      const fixedText = item.fixed_columns?.[0]?.title?.text ?? item.fixed_columns?.[0]?.title?.toString?.();
+      if (isEpisodeEndpoint(item.overlay?.content?.endpoint) || isEpisodeEndpoint(item.endpoint)) {
+        const showRun = flexCols.slice(1)
+          .flatMap((col) => (col.title ?? col.text)?.runs ?? [])
+          .find((run) => isPodcastBrowseId(run.endpoint?.payload?.browseId ?? ''));
+        return {
+          id: videoId,
+          sourceId: SOURCE_ID,
+          type: 'episode',
+          title,
+          artist: showRun?.text ?? (artist || fallbackArtist || 'Unknown'),
+          seriesId: showRun?.endpoint?.payload?.browseId,
+          seriesTitle: showRun?.text,
+          artwork: deepExtractThumbnail(item),
+          duration: item.duration?.seconds ?? parseDuration(fixedText),
+          contentId: videoId,
+        };
+      }
+      return {
+        id: videoId,
+        sourceId: SOURCE_ID,
+        type: 'track',
+        title,
+        artist: artist || fallbackArtist || 'Unknown',
+        artistId: item.artists?.[0]?.channel_id ?? item.author?.channel_id,
+        album: item.album?.name || undefined,
+        albumId: item.album?.id,
+        year: parseYear(item.year),
+        explicit: hasExplicitBadge(item.badges) || undefined,
+        playCount: parseCount(findPlayCountText(flexCols) ?? item.views),
+        artwork: deepExtractThumbnail(item),
+        duration: item.duration?.seconds ?? parseDuration(fixedText),
+        contentId: videoId,
+      };
     }
     if (itemType === 'MusicTwoRowItem') {
       const title = item.title?.text ?? '';
       const subtitle = item.subtitle?.text ?? '';
       const videoId = item.endpoint?.payload?.videoId ?? item.id ?? '';
       if (!videoId || !title) return null;
-      return { id: videoId, sourceId: SOURCE_ID, type: 'track', title, artist: subtitle || fallbackArtist || 'Unknown', artwork: deepExtractThumbnail(item), duration: 0, contentId: videoId };
+      const artists = (item.artists ?? []).map((a) => a.name).filter(Boolean).join(', ');
+      return {
+        id: videoId,
+        sourceId: SOURCE_ID,
+        type: 'track',
+        title,
+        artist: artists || subtitle || fallbackArtist || 'Unknown',
+        artistId: item.artists?.[0]?.channel_id ?? item.author?.channel_id,
+        explicit: hasExplicitBadge(item.badges) || undefined,
+        playCount: parseCount(item.views),
+        artwork: deepExtractThumbnail(item),
+        // Two-row cards carry no duration; the player response fills it in later
+        duration: 0,
+        contentId: videoId,
+      };
     }
     return null;
   }
 
+  function parseMusicListFeedItem(item: InnertubeListItem): MediaFeedItem | null {
+    const flexCols = item.flex_columns ?? item.flexColumns ?? [];
+    const titleCol = flexCols[0]?.title ?? flexCols[0]?.text;
+    const subtitleCol = flexCols[1]?.title ?? flexCols[1]?.text;
+    const title = titleCol?.text ?? titleCol?.runs?.[0]?.text ?? '';
+    const subtitle = subtitleCol?.text ?? subtitleCol?.runs?.map((r) => r.text).join('') ?? '';
+    if (item.item_type === 'song' || item.item_type === 'video') {
+      const videoId = item.overlay?.content?.endpoint?.payload?.videoId ?? item.id ?? '';
+      if (!title || !videoId) return null;
+      return { id: videoId, title, subtitle, thumbnail: deepExtractThumbnail(item), type: 'song', trackId: videoId };
+    }
+    const browseId = item.endpoint?.payload?.browseId ?? item.navigation_endpoint?.payload?.browseId ?? item.id ?? '';
+    if (!title || !browseId) return null;
+
+    let type: MediaFeedItem['type'] = 'playlist';
+    if (item.item_type === 'album') type = 'album';
+    else if (item.item_type === 'artist' || item.item_type === 'library_artist') type = 'artist';
+    else if (item.item_type === 'podcast_show' || isPodcastBrowseId(browseId)) type = 'series';
+    return { id: browseId, title, subtitle, thumbnail: deepExtractThumbnail(item), type, browseId };
+  }
+
   function parseMusicItem(item: InnertubeListItem): MediaFeedItem | null {
     if ((item.type ?? '') !== 'MusicTwoRowItem') return null;
     const title = item.title?.text ?? item.title?.toString?.() ?? '';
@@ -620,18 +2135,75 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     const videoId = endpoint?.payload?.videoId ?? item.overlay?.content?.payload?.videoId ?? item.on_tap?.payload?.videoId ?? item.id ?? '';
     const isValidVideoId = !!videoId && videoId.length === 11 && !videoId.startsWith('VL') && !videoId.startsWith('MPR');
 
+    // item_type comes from the endpoint's page type, so it does not depend on the UI language
     let type: MediaFeedItem['type'] = 'unknown';
     if (isValidVideoId) {
       type = 'song';
+    } else if (item.item_type === 'album' || item.item_type === 'artist' || item.item_type === 'playlist') {
+      type = item.item_type;
+    } else if (isArtistBrowseId(browseId)) {
+      type = 'artist';
+    } else if (isPodcastBrowseId(browseId)) {
+      type = 'series';
+    } else if (browseId.startsWith('MPRE')) {
+      type = 'album';
     } else if (browseId) {
-      const lower = subtitle.toLowerCase();
-      if (lower.includes('album')) type = 'album';
-      else if (lower.includes('artist')) type = 'artist';
-      else if (lower.includes('song') || lower.includes('single')) type = 'song';
-      else type = 'playlist';
+      type = 'playlist';
     }
     if (!title) return null;
-    return { id: browseId || videoId || title, title, subtitle, thumbnail: deepExtractThumbnail(item), type, trackId: isValidVideoId ? videoId : undefined, browseId: browseId || undefined };
+    return {
+      id: browseId || videoId || title,
+      title,
+      subtitle,
+      thumbnail: deepExtractThumbnail(item),
+      type,
+      trackId: isValidVideoId ? videoId : undefined,
+      browseId: browseId || undefined,
+      year: parseYear(item.year),
+    };
+  }
+
+  /** MusicMultiRowListItem: a podcast episode row with date, length and description. */
+  function parseEpisodeItem(item: InnertubeListItem): MediaItem | null {
+    const videoId = item.on_tap?.payload?.videoId ?? item.overlay?.content?.endpoint?.payload?.videoId ?? '';
+    const title = item.title?.text ?? '';
+    if (!videoId || !title) return null;
+    // "Mar 3, 2024 • 52 min": the date comes first, the length is whichever part parses as one
+    const parts = (item.subtitle?.text ?? '').split('•').map((p) => p.trim()).filter(Boolean);
+    const durationPart = parts.find((p) => parseSpokenDuration(p) > 0);
+    return {
+      id: videoId,
+      sourceId: SOURCE_ID,
+      type: 'episode',
+      title,
+      description: item.description?.text || undefined,
+      published: parts.find((p) => p !== durationPart),
+      artwork: deepExtractThumbnail(item),
+      duration: durationPart ? parseSpokenDuration(durationPart) : 0,
+      contentId: videoId,
+    };
+  }
+
+  function parsePlaylistPanelVideo(video: InnertubePlaylistPanelVideo): MediaItem | null {
+    const videoId = video.video_id;
+    const title = video.title?.text ?? '';
+    if (!videoId || !title) return null;
+    const artist = (video.artists ?? []).map((a) => a.name).filter(Boolean).join(', ') || video.author || 'Unknown';
+    return {
+      id: videoId,
+      sourceId: SOURCE_ID,
+      type: 'track',
+      title,
+      artist,
+      artistId: video.artists?.[0]?.channel_id,
+      album: video.album?.name || undefined,
+      albumId: video.album?.id,
+      year: parseYear(video.album?.year),
+      explicit: hasExplicitBadge(video.badges) || undefined,
+      artwork: getBestThumbnail(video.thumbnail) || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+      duration: video.duration?.seconds ?? parseDuration(video.duration?.text),
+      contentId: videoId,
+    };
   }
 
   function parseLockupViewModel(lockup: LockupViewModel): MediaItem | null {
@@ -639,7 +2211,9 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
     if (!videoId) return null;
     const title = lockup.metadata?.lockupMetadataViewModel?.title?.content ?? 'Unknown';
     let artist = 'Unknown';
+    let playCount: number | undefined;
     try {
+      // Row 0 is the channel; row 1 starts with the view count ("1.2M views • 2 years ago")
       const rows = lockup.metadata?.lockupMetadataViewModel?.metadata?.contentMetadataViewModel?.metadataRows;
       if (Array.isArray(rows)) {
         for (const row of rows) {
@@ -650,9 +2224,11 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
             }
           }
         }
+        playCount = parseCount(rows[1]?.metadataParts?.[0]?.text?.content);
       }
     } catch { /* ignore */ }
     let artwork = '';
+    let duration = 0;
     try {
       const ci = lockup.contentImage;
       const sources =
@@ -660,9 +2236,14 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
         ci?.thumbnailViewModel?.image?.sources ??
         ci?.decoratedThumbnailViewModel?.thumbnail?.thumbnailViewModel?.image?.sources;
       if (Array.isArray(sources) && sources.length > 0) artwork = sources[sources.length - 1]?.url ?? '';
+      for (const overlay of ci?.thumbnailViewModel?.overlays ?? []) {
+        for (const badge of overlay.thumbnailOverlayBadgeViewModel?.thumbnailBadges ?? []) {
+          duration ||= parseDuration(badge.thumbnailBadgeViewModel?.text);
+        }
+      }
     } catch { /* ignore */ }
     if (!artwork) artwork = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
-    return { id: videoId, sourceId: SOURCE_ID, type: 'track', title, artist, artwork, duration: 0, contentId: videoId };
+    return { id: videoId, sourceId: SOURCE_ID, type: 'track', title, artist, artwork, duration, playCount, contentId: videoId };
   }
 
   function deepExtractThumbnail(item: InnertubeListItem): string {
@@ -723,12 +2304,84 @@ export default function createYouTubeSource(host: SourceHost): MediaSource {
 
   function parseDuration(text?: string): number {
     if (!text) return 0;
-    const parts = text.split(':').map(Number);
+    const parts = text.trim().split(':').map(Number);
+    if (parts.some(isNaN)) return 0;
     if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
     if (parts.length === 2) return parts[0] * 60 + parts[1];
     return 0;
   }
 
+  /**
+   * Parse a spoken length such as "52 min", "1 hr 5 min" or "45m 10s";
+   * falls back to "h:mm:ss". Only the unit's first letter is read.
+   */
+  function parseSpokenDuration(text?: string): number {
+    if (!text) return 0;
+    if (/^\d+(:\d{2}){1,2}$/.test(text.trim())) return parseDuration(text);
+    let seconds = 0;
+    for (const [, value, unit] of text.matchAll(/(\d+)\s*([a-z]+)/gi)) {
+      const u = unit.toLowerCase();
+      if (u.startsWith('h')) seconds += Number(value) * 3600;
+      else if (u.startsWith('mi') || u === 'm') seconds += Number(value) * 60;
+      else if (u.startsWith('s')) seconds += Number(value);
+    }
+    return seconds;
+  }
+
+  /**
+   * Parse a play/view count such as "1,234,567 views", "1.2M plays" or
+   * "12 K". Only the number and an optional K/M/B suffix are read, so the
+   * trailing word may be in any language.
+   */
+  function parseCount(text?: string): number | undefined {
+    const m = text?.match(/^\s*(\d[\d.,\s\u00a0]*)([KMB](?!\w))?/i);
+    if (!m) return undefined;
+    const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[(m[2] ?? '').toLowerCase()];
+    if (multiplier) {
+      const value = parseFloat(m[1].replace(/[\s\u00a0]/g, '').replace(',', '.'));
+      return isNaN(value) ? undefined : Math.round(value * multiplier);
+    }
+    const value = parseInt(m[1].replace(/[^\d]/g, ''), 10);
+    return isNaN(value) ? undefined : value;
+  }
+
+  /**
+   * Find a play/view count in the secondary columns: album tracks give it a
+   * column of its own ("1.2M plays"), search results a run of the subtitle.
+   * Matched by shape rather than by the (localized) word after the number;
+   * linked runs are artists or albums and never counts.
+   */
+  function findPlayCountText(flexCols: InnertubeFlexColumn[]): string | undefined {
+    const isCount = (text: string) => /^\d[\d.,\s\u00a0]*[KMB]?\s+\S+$/i.test(text.trim()) && !text.includes(':');
+    for (const col of flexCols.slice(1)) {
+      const text = col.title ?? col.text;
+      for (const run of text?.runs ?? [{ text: text?.text ?? '' }]) {
+        if (!run.endpoint && run.text && isCount(run.text)) return run.text;
+      }
+    }
+    return undefined;
+  }
+
+  function parseYear(text?: string): number | undefined {
+    return text && /^[12]\d{3}$/.test(text.trim()) ? parseInt(text, 10) : undefined;
+  }
+
+  function hasExplicitBadge(badges?: InnertubeBadge[] | null): boolean {
+    return Array.isArray(badges) && badges.some((b) => b?.icon_type === 'MUSIC_EXPLICIT_BADGE');
+  }
+
+  /** Expiry (epoch ms) of a googlevideo URL, from `expire=` or an `/expire/<ts>/` path segment. */
+  function parseUrlExpiry(url: string): number | undefined {
+    const m = url.match(/[?&]expire=(\d+)/) ?? url.match(/\/expire\/(\d+)/);
+    return m ? parseInt(m[1], 10) * 1000 : undefined;
+  }
+
+  function withQueryParam(url: string, key: string, value: string): string {
+    const pattern = new RegExp(`([?&])${key}=[^&]*`);
+    if (pattern.test(url)) return url.replace(pattern, `$1${key}=${encodeURIComponent(value)}`);
+    return `${url}${url.includes('?') ? '&' : '?'}${key}=${encodeURIComponent(value)}`;
+  }
+
   function getBestThumbnail(thumbnails?: Array<{ url?: string }>): string {
     if (!Array.isArray(thumbnails) || thumbnails.length === 0) return '';
     return thumbnails[thumbnails.length - 1]?.url ?? '';
@@ -0,0 +1,154 @@
+/**
+ * YouTube Source — LRC Lyrics
+ *
+ * Parses and serializes the LRC lyrics format so synced lyrics fetched
+ * from YouTube Music can be written to disk and read back losslessly.
+ */
+
+import type { Lyrics, LyricLine } from '../types/media';
+
+export interface ParsedLrc {
+  /** ID tags such as `ti`, `ar`, `al`, `by` */
+  tags: Record<string, string>;
+  /** Timed lines, sorted by start time (empty for plain lyrics) */
+  lines: LyricLine[];
+  /** Lyrics as plain text */
+  text: string;
+}
+
+const TIMESTAMP_RE = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+const TAG_RE = /^\[([a-z#]+):(.*)\]$/i;
+/**
+ * Prefix for text that would otherwise be misread: text starting with `[`
+ * (tags, timestamps) or whitespace (the separator after a timestamp), and
+ * blank timed lines (end markers).
+ */
+const ESCAPE = '\\';
+
+// ─── Parsing ────────────────────────────────────────────────────
+
+/**
+ * Parse LRC content. Line text is kept exactly as written apart from one
+ * optional space after the timestamps. In a file with timed lines,
+ * non-blank untimed lines hold the lyrics' plain text when it differs
+ * from the timed lines.
+ */
+export function parseLrc(content: string): ParsedLrc {
+  const tags: Record<string, string> = {};
+  // Blank timed lines only mark where the line before them ends
+  const timed: Array<LyricLine & { marker: boolean }> = [];
+  const plain: string[] = [];
+  const textLines: string[] = [];
+
+  const rows = content.split(/\r?\n/);
+  // The newline ending the last line does not start another one
+  if (rows.length > 1 && rows[rows.length - 1] === '') rows.pop();
+
+  for (const line of rows) {
+    const tagMatch = line.trimEnd().match(TAG_RE);
+    if (tagMatch && !/^\d/.test(tagMatch[1])) {
+      tags[tagMatch[1].toLowerCase()] = tagMatch[2].trim();
+      continue;
+    }
+
+    const starts: number[] = [];
+    let rest = line;
+    TIMESTAMP_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = TIMESTAMP_RE.exec(line)) !== null) {
+      if (m.index !== line.length - rest.length) break;
+      starts.push(parseInt(m[1], 10) * 60 + parseFloat(m[2].replace(':', '.')));
+      rest = line.slice(TIMESTAMP_RE.lastIndex);
+    }
+
+    if (starts.length === 0) {
+      plain.push(unescapeText(line));
+      if (line.trim()) textLines.push(unescapeText(line));
+      continue;
+    }
+    const text = rest.replace(/^ /, '');
+    for (const start of starts) timed.push({ start, text: unescapeText(text), marker: !text.trim() });
+  }
+
+  // Positive offsets (milliseconds) make lyrics appear earlier.
+  const offset = Number(tags.offset ?? 0) / 1000;
+  if (offset) for (const line of timed) line.start = Math.max(0, line.start - offset);
+
+  // Stable sort keeps an end marker after a line starting at the same time
+  timed.sort((a, b) => a.start - b.start);
+  const lines: LyricLine[] = [];
+  timed.forEach((line, i) => {
+    if (line.marker) return;
+    const next = timed[i + 1];
+    lines.push(next ? { start: line.start, end: next.start, text: line.text } : { start: line.start, text: line.text });
+  });
+
+  let text: string;
+  if (lines.length === 0) text = plain.join('\n');
+  else text = textLines.length > 0 ? textLines.join('\n') : lines.map((l) => l.text).join('\n');
+  return { tags, lines, text };
+}
+
+/** Convert a parsed LRC file back into the SDK `Lyrics` shape. */
+export function lrcToLyrics(parsed: ParsedLrc): Lyrics {
+  return {
+    text: parsed.text,
+    source: parsed.tags.by || undefined,
+    lines: parsed.lines.length > 0 ? parsed.lines : undefined,
+  };
+}
+
+// ─── Serialization ──────────────────────────────────────────────
+
+/**
+ * Serialize lyrics as LRC so that `parseLrc` reads back the same lines,
+ * times and text. The source attribution is stored in the `by` tag;
+ * lyrics without timed lines are written as untagged plain lines. A line's
+ * end is written as a blank timed line after it unless the next line
+ * starts then, and plain text that differs from the timed lines follows
+ * them as untimed lines.
+ */
+export function serializeLrc(lyrics: Lyrics, tags: Record<string, string> = {}): string {
+  const out: string[] = [];
+  const allTags = { ...tags };
+  if (lyrics.source && !allTags.by) allTags.by = lyrics.source;
+  for (const [key, value] of Object.entries(allTags)) {
+    if (value) out.push(`[${key}:${value.replace(/[\r\n\]]+/g, ' ')}]`);
+  }
+
+  if (lyrics.lines && lyrics.lines.length > 0) {
+    const lines = [...lyrics.lines].sort((a, b) => a.start - b.start);
+    lines.forEach((line, i) => {
+      out.push(`[${formatLrcTime(line.start)}]${escapeText(line.text, !line.text.trim() || /^[\s[]/.test(line.text))}`);
+      if (line.end !== undefined && line.end !== lines[i + 1]?.start) out.push(`[${formatLrcTime(line.end)}]`);
+    });
+    if (lyrics.text !== lines.map((l) => l.text).join('\n')) {
+      // Blank lines are escaped too, since unescaped ones are ignored next to timed lines
+      for (const line of lyrics.text.split('\n')) out.push(escapeText(line, !line.trim() || line.startsWith('[')));
+    }
+  } else {
+    for (const line of lyrics.text.split('\n')) out.push(escapeText(line, line.startsWith('[')));
+  }
+  return `${out.join('\n')}\n`;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** `mm:ss.xx`, or `mm:ss.xxx` when the time is not a whole number of centiseconds. */
+function formatLrcTime(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const m = Math.floor(totalMs / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const fraction = ms % 10 === 0 ? String(ms / 10).padStart(2, '0') : String(ms).padStart(3, '0');
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${fraction}`;
+}
+
+/** Text starting with the escape character is always escaped, so unescaping is unambiguous. */
+function escapeText(text: string, ambiguous: boolean): string {
+  return ambiguous || text.startsWith(ESCAPE) ? `${ESCAPE}${text}` : text;
+}
+
+function unescapeText(text: string): string {
+  return text.startsWith(ESCAPE) ? text.slice(ESCAPE.length) : text;
+}
@@ -0,0 +1,240 @@
+/**
+ * YouTube Source — Player Script Cache
+ *
+ * youtubei.js needs the signature and n-parameter functions from YouTube's
+ * player script to decipher stream URLs, and asks its cache for them by
+ * player ID before downloading anything. `PlayerCache` implements that
+ * cache: players are kept on disk through the host, fetched from an ordered
+ * list of mirrors when missing, and validated before they are handed over.
+ *
+ * A mirror is either a URL template containing `{player_id}` (a server
+ * returning the serialized cache payload youtubei.js produces) or the
+ * special `youtube` entry, which downloads the player script from YouTube
+ * and extracts the functions locally.
+ */
+
+import { Player, LZW } from 'youtubei.js';
+import type { Types } from 'youtubei.js';
+import type { SourceHost } from '../types/host';
+
+export const YOUTUBE_MIRROR = 'youtube';
+export const DEFAULT_PLAYER_MIRRORS: readonly string[] = [YOUTUBE_MIRROR];
+
+const DESKTOP_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+/** Serialized players are a few tens of KB; anything far bigger is not one */
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+export interface PlayerCacheOptions {
+  /** Directory (relative to the document directory) holding cached players */
+  dir: string;
+  /** Storage key for the recency list used to bound the cache */
+  indexKey: string;
+  /** Players kept on disk; older ones are evicted */
+  maxPlayers: number;
+  /** Mirrors to try in order, read on every miss so changes apply immediately */
+  mirrors(): string[];
+}
+
+/** The parts of a player youtubei.js needs, as stored on disk. */
+interface StoredPlayer {
+  /** youtubei.js player format version */
+  v: number;
+  sts: number;
+  sig: string;
+  nsig: string;
+}
+
+export class PlayerCache implements Types.ICache {
+  cache_dir = '';
+  private _host: SourceHost;
+  private _options: PlayerCacheOptions;
+
+  constructor(host: SourceHost, options: PlayerCacheOptions) {
+    this._host = host;
+    this._options = options;
+  }
+
+  async get(playerId: string): Promise<ArrayBuffer | undefined> {
+    const local = this._readLocal(playerId);
+    if (local) return serializePlayer(local);
+
+    for (const mirror of this._options.mirrors()) {
+      try {
+        const player = mirror === YOUTUBE_MIRROR
+          ? await this._fetchFromYouTube(playerId)
+          : await this._fetchFromMirror(mirror, playerId);
+        if (!player) continue;
+        this._writeLocal(playerId, player);
+        this._host.log('Player', playerId, 'retrieved from', mirror);
+        return serializePlayer(player);
+      } catch (e) {
+        this._host.log('Player mirror failed:', mirror, e);
+      }
+    }
+    return undefined;
+  }
+
+  /** Called by youtubei.js after it downloads a player itself (with a `Uint8Array`, despite the typing). */
+  async set(playerId: string, value: ArrayBuffer | Uint8Array): Promise<void> {
+    const player = parsePlayer(value);
+    if (player) this._writeLocal(playerId, player);
+  }
+
+  async remove(playerId: string): Promise<void> {
+    this._evict(playerId);
+    this._saveIndex(this._loadIndex().filter((id) => id !== playerId));
+  }
+
+  // ─── Sources ────────────────────────────────────────────────
+
+  private async _fetchFromMirror(template: string, playerId: string): Promise<StoredPlayer | null> {
+    const url = template.includes('{player_id}')
+      ? template.replace('{player_id}', encodeURIComponent(playerId))
+      : `${template.replace(/\/$/, '')}/${encodeURIComponent(playerId)}`;
+    const res = await this._host.fetch(url);
+    if (!res.ok) return null;
+    const player = parsePlayer(await res.arrayBuffer());
+    if (!player) this._host.log('Rejected invalid player payload from', url);
+    return player;
+  }
+
+  private async _fetchFromYouTube(playerId: string): Promise<StoredPlayer | null> {
+    const res = await this._host.fetch(
+      `https://www.youtube.com/s/player/${encodeURIComponent(playerId)}/player_ias.vflset/en_US/base.js`,
+      { headers: { 'User-Agent': DESKTOP_USER_AGENT } },
+    );
+    if (!res.ok) return null;
+    const js = await res.text();
+    const player: StoredPlayer = {
+      v: Player.LIBRARY_VERSION,
+      sts: Player.extractSigTimestamp(js),
+      sig: Player.extractSigSourceCode(js) ?? '',
+      nsig: Player.extractNSigSourceCode(js) ?? '',
+    };
+    return isValidPlayer(player) ? player : null;
+  }
+
+  // ─── Local Files ────────────────────────────────────────────
+
+  private _path(playerId: string): string {
+    return `${this._options.dir}/${playerId.replace(/[^\w-]/g, '_')}.json`;
+  }
+
+  private _readLocal(playerId: string): StoredPlayer | null {
+    const path = this._path(playerId);
+    try {
+      if (!this._host.fileExists(path)) return null;
+      const raw = this._host.readFile(path);
+      if (!raw) return null;
+      const player = JSON.parse(raw) as StoredPlayer;
+      if (isValidPlayer(player)) {
+        this._touch(playerId);
+        return player;
+      }
+      // Written by an older youtubei.js, or corrupted
+      this._host.log('Discarding invalid cached player', playerId);
+      this._evict(playerId);
+    } catch (e) {
+      this._host.log('Failed to read cached player', playerId, e);
+    }
+    return null;
+  }
+
+  private _writeLocal(playerId: string, player: StoredPlayer): void {
+    try {
+      this._host.writeFile(this._path(playerId), JSON.stringify(player));
+      this._touch(playerId);
+    } catch (e) {
+      this._host.log('Failed to cache player', playerId, e);
+    }
+  }
+
+  /** Mark a player as most recently used and evict beyond `maxPlayers`. */
+  private _touch(playerId: string): void {
+    const index = this._loadIndex().filter((id) => id !== playerId);
+    index.push(playerId);
+    while (index.length > this._options.maxPlayers) this._evict(index.shift()!);
+    this._saveIndex(index);
+  }
+
+  /** The host has no delete API, so evicted files are truncated. */
+  private _evict(playerId: string): void {
+    try {
+      this._host.writeFile(this._path(playerId), '');
+    } catch { /* ignore */ }
+  }
+
+  private _loadIndex(): string[] {
+    const raw = this._host.storage.get(this._options.indexKey);
+    if (!raw) return [];
+    try {
+      return JSON.parse(raw) as string[];
+    } catch {
+      return [];
+    }
+  }
+
+  private _saveIndex(index: string[]): void {
+    this._host.storage.set(this._options.indexKey, JSON.stringify(index));
+  }
+}
+
+// ─── Payload Format ─────────────────────────────────────────────
+
+/**
+ * The layout youtubei.js writes in `Player.cache()`: u32 version, u32
+ * signature timestamp, u32 sig length, then the LZW-compressed sig and
+ * n-sig source code (all little-endian).
+ */
+function serializePlayer(player: StoredPlayer): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const sig = encoder.encode(LZW.compress(player.sig));
+  const nsig = encoder.encode(LZW.compress(player.nsig));
+  const buffer = new ArrayBuffer(12 + sig.byteLength + nsig.byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, player.v, true);
+  view.setUint32(4, player.sts, true);
+  view.setUint32(8, sig.byteLength, true);
+  new Uint8Array(buffer).set(sig, 12);
+  new Uint8Array(buffer).set(nsig, 12 + sig.byteLength);
+  return buffer;
+}
+
+function parsePlayer(buffer: ArrayBuffer | Uint8Array): StoredPlayer | null {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (bytes.byteLength < 12 || bytes.byteLength > MAX_PAYLOAD_BYTES) return null;
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const sigLength = view.getUint32(8, true);
+    if (12 + sigLength > bytes.byteLength) return null;
+    const decoder = new TextDecoder();
+    const player: StoredPlayer = {
+      v: view.getUint32(0, true),
+      sts: view.getUint32(4, true),
+      sig: LZW.decompress(decoder.decode(bytes.subarray(12, 12 + sigLength))),
+      nsig: LZW.decompress(decoder.decode(bytes.subarray(12 + sigLength))),
+    };
+    return isValidPlayer(player) ? player : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A usable player matches this youtubei.js version, has a signature
+ * timestamp, and carries both functions in the shape youtubei.js calls
+ * them — and they must at least compile. Nothing is executed here.
+ */
+function isValidPlayer(player: StoredPlayer): boolean {
+  if (player.v !== Player.LIBRARY_VERSION || !(player.sts > 0)) return false;
+  if (typeof player.sig !== 'string' || !player.sig.trimEnd().endsWith('descramble_sig(sig);')) return false;
+  if (typeof player.nsig !== 'string' || !/\(nsig\);\s*$/.test(player.nsig)) return false;
+  try {
+    // Compiling (without calling) rejects truncated or garbled code
+    new Function('sig', player.sig);
+    new Function('nsig', player.nsig);
+    return true;
+  } catch {
+    return false;
+  }
+}
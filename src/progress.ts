@@ -0,0 +1,116 @@
+/**
+ * YouTube Source — Watch Progress
+ *
+ * Remembers where playback of long content stopped so it can resume there.
+ * Players report positions every few seconds; positions are kept in memory
+ * and written to `host.storage` at most once per write interval. Items
+ * played to (nearly) the end are forgotten, and only the most recently
+ * updated entries are kept.
+ */
+
+import type { SourceHost } from '../types/host';
+
+export interface WatchProgressOptions {
+  /** Storage key holding all entries */
+  key: string;
+  /** Entries kept; the least recently updated are dropped */
+  maxEntries: number;
+  /** Minimum time between storage writes */
+  writeIntervalMs: number;
+}
+
+/** Positions this early are not worth resuming from */
+const MIN_RESUME_SECONDS = 15;
+/** Within this much of the end (or past this fraction) an item counts as finished */
+const FINISHED_REMAINING_SECONDS = 30;
+const FINISHED_RATIO = 0.95;
+
+interface ProgressEntry {
+  /** Position (seconds) */
+  p: number;
+  /** Duration (seconds) */
+  d: number;
+  /** Last update (epoch ms) */
+  t: number;
+}
+
+export type ProgressUpdate = 'saved' | 'finished' | 'ignored';
+
+export class WatchProgressStore {
+  private _host: SourceHost;
+  private _options: WatchProgressOptions;
+  private _entries: Map<string, ProgressEntry> | null = null;
+  private _writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(host: SourceHost, options: WatchProgressOptions) {
+    this._host = host;
+    this._options = options;
+  }
+
+  report(contentId: string, position: number, duration: number): ProgressUpdate {
+    if (!isFinite(position) || position < 0) return 'ignored';
+    const entries = this._load();
+    if (isFinished(position, duration)) {
+      if (entries.delete(contentId)) this._scheduleWrite();
+      return 'finished';
+    }
+    if (position < MIN_RESUME_SECONDS) return 'ignored';
+
+    // Re-insert so the map stays in least-recently-updated order
+    entries.delete(contentId);
+    entries.set(contentId, { p: position, d: duration > 0 ? duration : 0, t: Date.now() });
+    while (entries.size > this._options.maxEntries) entries.delete(entries.keys().next().value as string);
+    this._scheduleWrite();
+    return 'saved';
+  }
+
+  /** Saved position in seconds, or 0 to start from the beginning. */
+  get(contentId: string): number {
+    return this._load().get(contentId)?.p ?? 0;
+  }
+
+  clear(): void {
+    this._entries = new Map();
+    this._write();
+  }
+
+  /** Write pending changes immediately (call on dispose). */
+  flush(): void {
+    if (this._writeTimer) this._write();
+  }
+
+  private _scheduleWrite(): void {
+    if (this._writeTimer) return;
+    this._writeTimer = setTimeout(() => this._write(), this._options.writeIntervalMs);
+  }
+
+  private _write(): void {
+    if (this._writeTimer) {
+      clearTimeout(this._writeTimer);
+      this._writeTimer = null;
+    }
+    const entries = this._load();
+    if (entries.size === 0) this._host.storage.delete(this._options.key);
+    else this._host.storage.set(this._options.key, JSON.stringify(Array.from(entries)));
+  }
+
+  private _load(): Map<string, ProgressEntry> {
+    if (this._entries) return this._entries;
+    this._entries = new Map();
+    const raw = this._host.storage.get(this._options.key);
+    if (!raw) return this._entries;
+    try {
+      const stored = JSON.parse(raw) as Array<[string, ProgressEntry]>;
+      stored.sort((a, b) => a[1].t - b[1].t);
+      for (const [contentId, entry] of stored) this._entries.set(contentId, entry);
+    } catch (e) {
+      this._host.log('Watch progress unreadable, starting fresh:', e);
+    }
+    return this._entries;
+  }
+}
+
+function isFinished(position: number, duration: number): boolean {
+  if (!(duration > 0)) return false;
+  return position >= duration * FINISHED_RATIO || duration - position <= FINISHED_REMAINING_SECONDS;
+}
@@ -0,0 +1,115 @@
+/**
+ * YouTube Source — Skip Segments
+ *
+ * Looks up community-submitted skip segments (non-music intros, outros,
+ * sponsor reads, ...) from a SponsorBlock-compatible server. Lookups use
+ * the hashed-prefix endpoint: only the first characters of the video ID's
+ * SHA-256 are sent, and the matching video is picked out of the response
+ * locally, so the server never learns which video is playing.
+ */
+
+import type { SourceHost } from '../types/host';
+import type { SkipSegment, SkipSegmentCategory } from '../types/media';
+
+export const DEFAULT_SPONSORBLOCK_ENDPOINT = 'https://sponsor.ajay.app';
+
+export const DEFAULT_SKIP_CATEGORIES: readonly SkipSegmentCategory[] = [
+  'music_offtopic',
+  'intro',
+  'outro',
+  'sponsor',
+  'selfpromo',
+];
+
+/** Hash characters sent; 4 matches the prefix length SponsorBlock clients use */
+const HASH_PREFIX_LENGTH = 4;
+
+interface SegmentResponse {
+  videoID?: string;
+  segments?: Array<{
+    category?: string;
+    actionType?: string;
+    segment?: [number, number];
+    UUID?: string;
+  }>;
+}
+
+/** `endpoint` is the server base URL, e.g. `https://sponsor.ajay.app`. */
+export async function fetchSkipSegments(
+  host: SourceHost,
+  endpoint: string,
+  contentId: string,
+  categories: readonly SkipSegmentCategory[],
+): Promise<SkipSegment[]> {
+  const prefix = sha256Hex(contentId).slice(0, HASH_PREFIX_LENGTH);
+  const query = `categories=${encodeURIComponent(JSON.stringify(categories))}&actionTypes=${encodeURIComponent('["skip"]')}`;
+  const res = await host.fetch(`${endpoint.replace(/\/+$/, '')}/api/skipSegments/${prefix}?${query}`);
+  // 404 means no video under this prefix has segments
+  if (res.status === 404) return [];
+  if (!res.ok) throw new Error(`Skip segment lookup failed with status ${res.status}`);
+
+  const videos = await res.json() as SegmentResponse[];
+  const video = Array.isArray(videos) ? videos.find((v) => v.videoID === contentId) : undefined;
+  const segments: SkipSegment[] = [];
+  for (const s of video?.segments ?? []) {
+    if (s.actionType && s.actionType !== 'skip') continue;
+    const category = s.category as SkipSegmentCategory;
+    if (!categories.includes(category) || !Array.isArray(s.segment)) continue;
+    const [start, end] = s.segment;
+    if (!(end > start) || start < 0) continue;
+    segments.push({ start, end, category, id: s.UUID });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+// ─── SHA-256 ────────────────────────────────────────────────────
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Hex SHA-256 of a UTF-8 string. The host runtime has no `crypto.subtle`,
+ * and inputs here are a few bytes, so a plain implementation is enough.
+ */
+export function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const blocks = Math.ceil((bytes.length + 9) / 64);
+  const data = new Uint8Array(blocks * 64);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  const bits = bytes.length * 8;
+  view.setUint32(data.length - 8, Math.floor(bits / 0x100000000));
+  view.setUint32(data.length - 4, bits >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < data.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  return Array.from(h, (x) => x.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,148 @@
+/**
+ * YouTube Source — Subtitle Conversion
+ *
+ * Converts YouTube timed-text payloads (legacy XML, srv3 XML and JSON3)
+ * into a flat cue list, and serializes cues to WebVTT or SubRip so the
+ * player can load them from a local cache file.
+ */
+
+import type { SubtitleCue } from './types';
+
+// ─── Parsing ────────────────────────────────────────────────────
+
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: Array<{ utf8?: string }>;
+}
+
+/**
+ * Parse a timed-text payload in any of the formats YouTube serves.
+ * The format is sniffed from the content, so callers do not need to
+ * know which `fmt` the track URL was requested with.
+ */
+export function parseTimedText(payload: string): SubtitleCue[] {
+  const trimmed = payload.trim();
+  if (trimmed.startsWith('{')) return parseTimedTextJson3(trimmed);
+  if (trimmed.startsWith('<')) return parseTimedTextXml(trimmed);
+  return [];
+}
+
+export function parseTimedTextJson3(payload: string): SubtitleCue[] {
+  let data: { events?: Json3Event[] };
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return [];
+  }
+  const cues: SubtitleCue[] = [];
+  for (const event of data.events ?? []) {
+    if (!event.segs || event.tStartMs === undefined) continue;
+    const text = event.segs.map((s) => s.utf8 ?? '').join('').trim();
+    if (!text) continue;
+    const start = event.tStartMs / 1000;
+    cues.push({ start, end: start + (event.dDurationMs ?? 0) / 1000, text });
+  }
+  return fixOverlaps(cues);
+}
+
+export function parseTimedTextXml(payload: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  // srv3: <p t="1200" d="3400">text<s>word</s></p> (milliseconds)
+  if (/<timedtext[^>]*format="3"/.test(payload) || /<p\s+[^>]*\bt="/.test(payload)) {
+    const re = /<p\s+([^>]*)>([\s\S]*?)<\/p>/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(payload)) !== null) {
+      const t = readAttr(m[1], 't');
+      if (t === undefined) continue;
+      const text = cleanText(m[2], 1);
+      if (!text) continue;
+      const start = Number(t) / 1000;
+      cues.push({ start, end: start + Number(readAttr(m[1], 'd') ?? 0) / 1000, text });
+    }
+    return fixOverlaps(cues);
+  }
+
+  // Legacy: <text start="1.2" dur="3.4">text</text> (seconds)
+  const re = /<text\s+([^>]*)>([\s\S]*?)<\/text>/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(payload)) !== null) {
+    const startAttr = readAttr(m[1], 'start');
+    if (startAttr === undefined) continue;
+    // Legacy payloads are entity-encoded twice (`&amp;#39;`)
+    const text = cleanText(m[2], 2);
+    if (!text) continue;
+    const start = Number(startAttr);
+    cues.push({ start, end: start + Number(readAttr(m[1], 'dur') ?? 0), text });
+  }
+  return fixOverlaps(cues);
+}
+
+// ─── Serialization ──────────────────────────────────────────────
+
+export function cuesToVtt(cues: SubtitleCue[]): string {
+  const blocks = cues.map((c) => `${formatTimestamp(c.start, '.')} --> ${formatTimestamp(c.end, '.')}\n${escapeVttText(c.text)}`);
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+export function cuesToSrt(cues: SubtitleCue[]): string {
+  const blocks = cues.map((c, i) => `${i + 1}\n${formatTimestamp(c.start, ',')} --> ${formatTimestamp(c.end, ',')}\n${c.text}`);
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function readAttr(attrs: string, name: string): string | undefined {
+  const m = attrs.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return m ? m[1] : undefined;
+}
+
+/** Strip markup and decode entities `decodePasses` times. */
+function cleanText(raw: string, decodePasses: number): string {
+  let text = raw.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '');
+  for (let i = 0; i < decodePasses; i++) text = decodeEntities(text);
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+
+/** One decoding pass: `&amp;lt;` becomes `&lt;`, not `<`. */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return String.fromCharCode(code);
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Auto-generated tracks overlap heavily; clip each cue at the next one's start. */
+function fixOverlaps(cues: SubtitleCue[]): SubtitleCue[] {
+  cues.sort((a, b) => a.start - b.start);
+  for (let i = 0; i < cues.length - 1; i++) {
+    if (cues[i].end > cues[i + 1].start) cues[i].end = cues[i + 1].start;
+    if (cues[i].end <= cues[i].start) cues[i].end = cues[i].start + 0.001;
+  }
+  return cues;
+}
+
+/** WebVTT cue text treats `<` as a tag and `&` as an entity; `>` is escaped so text can never contain `-->`. */
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
@@ -0,0 +1,439 @@
+/**
+ * YouTube Source — Audio File Tagging
+ *
+ * Embeds title, artist, album and cover art into downloaded stream
+ * containers so they are recognisable outside the app:
+ *
+ *   - MP4 (m4a): iTunes-style `moov/udta/meta/ilst` atoms
+ *   - WebM (Opus): Matroska `Tags` using the Vorbis comment field names,
+ *     plus a `cover.jpg`/`cover.png` attachment for the artwork
+ *
+ * Everything works on in-memory byte arrays; the caller handles file I/O.
+ */
+
+import type { MediaItem } from '../types/media';
+
+export interface AudioArtwork {
+  data: Uint8Array;
+  /** `image/jpeg` or `image/png` */
+  mimeType: string;
+}
+
+export interface AudioTags {
+  title: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  year?: number;
+  trackNumber?: number;
+  trackCount?: number;
+  artwork?: AudioArtwork;
+}
+
+export type AudioContainer = 'mp4' | 'webm';
+
+const utf8 = new TextEncoder();
+
+export function tagsFromItem(item: MediaItem, artwork?: AudioArtwork): AudioTags {
+  return {
+    title: item.title,
+    artist: item.artist,
+    album: item.album,
+    year: item.year,
+    artwork,
+  };
+}
+
+/** Identify the container from its leading bytes. */
+export function detectContainer(data: Uint8Array): AudioContainer | null {
+  if (data.length >= 8 && latin1(data, 4, 8) === 'ftyp') return 'mp4';
+  if (data.length >= 4 && readUint(data, 0, 4) === EBML_ID) return 'webm';
+  return null;
+}
+
+/**
+ * Return a copy of `data` with the tags embedded, replacing any tags the
+ * file already had. Throws for containers other than MP4 and WebM.
+ */
+export function embedTags(data: Uint8Array, tags: AudioTags): Uint8Array {
+  switch (detectContainer(data)) {
+    case 'mp4': return tagMp4(data, tags);
+    case 'webm': return tagWebm(data, tags);
+    default: throw new Error('Unsupported audio container for tagging');
+  }
+}
+
+// ─── MP4 ────────────────────────────────────────────────────────
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+/** Boxes that only contain other boxes and may hold chunk offsets. */
+const MP4_OFFSET_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'moof', 'traf']);
+
+function tagMp4(data: Uint8Array, tags: AudioTags): Uint8Array {
+  const top = readMp4Boxes(data, 0, data.length);
+  const moov = top.find((b) => b.type === 'moov');
+  if (!moov) throw new Error('MP4 file has no moov box');
+
+  const parts: Uint8Array[] = [];
+  let udta: Mp4Box | undefined;
+  for (const child of readMp4Boxes(data, moov.dataStart, moov.end)) {
+    if (child.type === 'udta') udta = child;
+    else parts.push(data.subarray(child.start, child.end));
+  }
+
+  // Keep whatever else lives in udta (chapters, names, ...) and swap the metadata
+  const udtaParts = udta
+    ? readMp4Boxes(data, udta.dataStart, udta.end)
+      .filter((b) => b.type !== 'meta')
+      .map((b) => data.subarray(b.start, b.end))
+    : [];
+  udtaParts.push(buildMp4Meta(tags));
+  parts.push(mp4Box('udta', udtaParts));
+
+  const newMoov = mp4Box('moov', parts);
+  const delta = newMoov.length - (moov.end - moov.start);
+  const out = concatBytes([data.subarray(0, moov.start), newMoov, data.subarray(moov.end)]);
+
+  // Media stored after moov moves by `delta`; absolute offsets must follow it
+  if (delta !== 0) patchMp4Offsets(out, 0, out.length, moov.end, delta);
+  return out;
+}
+
+function buildMp4Meta(tags: AudioTags): Uint8Array {
+  const items: Uint8Array[] = [];
+  const text = (type: string, value: string | undefined) => {
+    if (value) items.push(mp4DataItem(type, 1, utf8.encode(value)));
+  };
+  text('©nam', tags.title);
+  text('©ART', tags.artist);
+  text('©alb', tags.album);
+  text('aART', tags.albumArtist);
+  if (tags.year) text('©day', String(tags.year));
+  if (tags.trackNumber) {
+    items.push(mp4DataItem('trkn', 0, concatBytes([
+      uint(0, 2), uint(tags.trackNumber, 2), uint(tags.trackCount ?? 0, 2), uint(0, 2),
+    ])));
+  }
+  if (tags.artwork) {
+    const type = tags.artwork.mimeType === 'image/png' ? 14 : 13;
+    items.push(mp4DataItem('covr', type, tags.artwork.data));
+  }
+
+  const hdlr = mp4Box('hdlr', [
+    uint(0, 4), // version + flags
+    uint(0, 4), // pre_defined
+    latin1Bytes('mdir'),
+    latin1Bytes('appl'),
+    new Uint8Array(9), // reserved + empty name
+  ]);
+  return mp4Box('meta', [uint(0, 4), hdlr, mp4Box('ilst', items)]);
+}
+
+/** An `ilst` entry: a box of the given type wrapping one `data` box. */
+function mp4DataItem(type: string, dataType: number, payload: Uint8Array): Uint8Array {
+  return mp4Box(type, [mp4Box('data', [uint(dataType, 4), uint(0, 4), payload])]);
+}
+
+function mp4Box(type: string, children: Uint8Array[]): Uint8Array {
+  const body = concatBytes(children);
+  return concatBytes([uint(body.length + 8, 4), latin1Bytes(type), body]);
+}
+
+function readMp4Boxes(data: Uint8Array, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint(data, offset, 4);
+    const type = latin1(data, offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint(data, offset + 8, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) throw new Error(`Malformed MP4 box "${type}"`);
+    boxes.push({ type, start: offset, dataStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Shift absolute file offsets at or past `threshold` by `delta`: chunk
+ * offsets in `stco`/`co64` and explicit base offsets in fragment `tfhd`s.
+ */
+function patchMp4Offsets(data: Uint8Array, start: number, end: number, threshold: number, delta: number): void {
+  for (const box of readMp4Boxes(data, start, end)) {
+    if (MP4_OFFSET_CONTAINERS.has(box.type)) {
+      patchMp4Offsets(data, box.dataStart, box.end, threshold, delta);
+    } else if (box.type === 'stco' || box.type === 'co64') {
+      const width = box.type === 'stco' ? 4 : 8;
+      const count = readUint(data, box.dataStart + 4, 4);
+      for (let i = 0; i < count; i++) {
+        const at = box.dataStart + 8 + i * width;
+        const value = readUint(data, at, width);
+        if (value >= threshold) writeUint(data, at, width, value + delta);
+      }
+    } else if (box.type === 'tfhd') {
+      const flags = readUint(data, box.dataStart + 1, 3);
+      if (flags & 0x1) {
+        const at = box.dataStart + 8;
+        const value = readUint(data, at, 8);
+        if (value >= threshold) writeUint(data, at, 8, value + delta);
+      }
+    }
+  }
+}
+
+// ─── WebM (Matroska) ────────────────────────────────────────────
+
+const EBML_ID = 0x1a45dfa3;
+const MKV = {
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Void: 0xec,
+  Tags: 0x1254c367,
+  Tag: 0x7373,
+  Targets: 0x63c0,
+  SimpleTag: 0x67c8,
+  TagName: 0x45a3,
+  TagString: 0x4487,
+  Attachments: 0x1941a469,
+  AttachedFile: 0x61a7,
+  FileName: 0x466e,
+  FileMimeType: 0x4660,
+  FileData: 0x465c,
+  FileUID: 0x46ae,
+} as const;
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  /** End of the element; the parent's end for unknown-size elements */
+  end: number;
+  unknownSize: boolean;
+}
+
+function tagWebm(data: Uint8Array, tags: AudioTags): Uint8Array {
+  const segment = readEbmlElements(data, 0, data.length).find((e) => e.id === MKV.Segment);
+  if (!segment) throw new Error('WebM file has no Segment');
+
+  const out = data.slice();
+  const children = readEbmlElements(out, segment.dataStart, segment.end);
+
+  // Blank out previous tags/attachments so re-tagging does not duplicate them
+  for (const child of children) {
+    if (child.id === MKV.Tags || child.id === MKV.Attachments) writeEbmlVoid(out, child.start, child.end);
+  }
+
+  const appended: Uint8Array[] = [buildWebmTags(tags)];
+  if (tags.artwork) appended.push(buildWebmAttachment(tags.artwork));
+
+  // Seek positions are relative to the start of the segment's data
+  const seeks: Array<[number, number]> = [];
+  let position = segment.end - segment.dataStart;
+  seeks.push([MKV.Tags, position]);
+  if (appended.length > 1) seeks.push([MKV.Attachments, position + appended[0].length]);
+  updateSeekHead(out, children, seeks);
+
+  const added = concatBytes(appended);
+  const header = segment.unknownSize
+    ? out.subarray(segment.start, segment.dataStart)
+    : concatBytes([ebmlId(MKV.Segment), encodeVint(segment.end - segment.dataStart + added.length, segment.dataStart - segment.start - 4)]);
+
+  return concatBytes([
+    out.subarray(0, segment.start),
+    header,
+    out.subarray(segment.dataStart, segment.end),
+    added,
+    out.subarray(segment.end),
+  ]);
+}
+
+function buildWebmTags(tags: AudioTags): Uint8Array {
+  const simple: Uint8Array[] = [];
+  const add = (name: string, value: string | number | undefined) => {
+    if (value === undefined || value === '') return;
+    simple.push(ebmlElement(MKV.SimpleTag, [
+      ebmlElement(MKV.TagName, [utf8.encode(name)]),
+      ebmlElement(MKV.TagString, [utf8.encode(String(value))]),
+    ]));
+  };
+  add('TITLE', tags.title);
+  add('ARTIST', tags.artist);
+  add('ALBUM', tags.album);
+  add('ALBUM_ARTIST', tags.albumArtist);
+  add('DATE', tags.year);
+  add('PART_NUMBER', tags.trackNumber);
+  add('TOTAL_PARTS', tags.trackCount);
+
+  // Empty Targets: the tags describe the whole file
+  return ebmlElement(MKV.Tags, [ebmlElement(MKV.Tag, [ebmlElement(MKV.Targets, []), ...simple])]);
+}
+
+function buildWebmAttachment(artwork: AudioArtwork): Uint8Array {
+  const name = artwork.mimeType === 'image/png' ? 'cover.png' : 'cover.jpg';
+  const uid = new Uint8Array(8);
+  for (let i = 0; i < uid.length; i++) uid[i] = Math.floor(Math.random() * 256);
+  uid[0] |= 0x01; // never zero
+  return ebmlElement(MKV.Attachments, [ebmlElement(MKV.AttachedFile, [
+    ebmlElement(MKV.FileName, [utf8.encode(name)]),
+    ebmlElement(MKV.FileMimeType, [utf8.encode(artwork.mimeType)]),
+    ebmlElement(MKV.FileData, [artwork.data]),
+    ebmlElement(MKV.FileUID, [uid]),
+  ])]);
+}
+
+/**
+ * Point the SeekHead at the new elements, rewriting it in place using the
+ * padding (Void) that muxers leave after it. Files without room keep their
+ * SeekHead; players that scan the segment still find the tags.
+ */
+function updateSeekHead(data: Uint8Array, children: EbmlElement[], seeks: Array<[number, number]>): void {
+  const index = children.findIndex((e) => e.id === MKV.SeekHead);
+  if (index < 0) return;
+  const seekHead = children[index];
+  const padding = children[index + 1]?.id === MKV.Void ? children[index + 1] : undefined;
+  const regionEnd = padding ? padding.end : seekHead.end;
+
+  const entries: Uint8Array[] = readEbmlElements(data, seekHead.dataStart, seekHead.end)
+    .filter((entry) => {
+      if (entry.id !== MKV.Seek) return true;
+      const id = readEbmlElements(data, entry.dataStart, entry.end).find((e) => e.id === MKV.SeekID);
+      const target = id ? readUint(data, id.dataStart, id.end - id.dataStart) : 0;
+      return target !== MKV.Tags && target !== MKV.Attachments;
+    })
+    .map((entry) => data.slice(entry.start, entry.end));
+  for (const [id, position] of seeks) {
+    entries.push(ebmlElement(MKV.Seek, [
+      ebmlElement(MKV.SeekID, [ebmlId(id)]),
+      ebmlElement(MKV.SeekPosition, [uintMinimal(position)]),
+    ]));
+  }
+
+  const rebuilt = ebmlElement(MKV.SeekHead, entries);
+  const spare = regionEnd - seekHead.start - rebuilt.length;
+  // A Void needs at least two bytes (ID + size)
+  if (spare < 0 || spare === 1) return;
+  data.set(rebuilt, seekHead.start);
+  if (spare > 0) writeEbmlVoid(data, seekHead.start + rebuilt.length, regionEnd);
+}
+
+function readEbmlElements(data: Uint8Array, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const idLength = vintLength(data[offset]);
+    const id = readUint(data, offset, idLength);
+    const size = readVint(data, offset + idLength);
+    const dataStart = offset + idLength + size.length;
+    const elementEnd = size.unknown ? end : dataStart + size.value;
+    if (elementEnd > end) throw new Error('Malformed WebM element');
+    elements.push({ id, start: offset, dataStart, end: elementEnd, unknownSize: size.unknown });
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+function writeEbmlVoid(data: Uint8Array, start: number, end: number): void {
+  const total = end - start;
+  const sizeLength = Math.min(8, total - 1);
+  data[start] = MKV.Void;
+  data.set(encodeVint(total - 1 - sizeLength, sizeLength), start + 1);
+  data.fill(0, start + 1 + sizeLength, end);
+}
+
+function ebmlElement(id: number, children: Uint8Array[]): Uint8Array {
+  const body = concatBytes(children);
+  return concatBytes([ebmlId(id), encodeVint(body.length), body]);
+}
+
+/** Element IDs keep their length marker, so they are written as plain big-endian bytes. */
+function ebmlId(id: number): Uint8Array {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  return uint(id, length);
+}
+
+function vintLength(first: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  throw new Error('Invalid EBML variable-length integer');
+}
+
+function readVint(data: Uint8Array, offset: number): { value: number; length: number; unknown: boolean } {
+  const length = vintLength(data[offset]);
+  let value = data[offset] & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    if (data[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: allOnes };
+}
+
+/** Encode a size; `minLength` keeps an existing field width where possible. */
+function encodeVint(value: number, minLength = 1): Uint8Array {
+  let length = Math.max(1, minLength);
+  // The all-ones pattern is reserved for "unknown size"
+  while (length < 8 && value >= 2 ** (7 * length) - 1) length++;
+  const bytes = uint(value, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+// ─── Byte Helpers ───────────────────────────────────────────────
+
+function readUint(data: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + data[offset + i];
+  return value;
+}
+
+function writeUint(data: Uint8Array, offset: number, length: number, value: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    data[offset + i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+}
+
+function uint(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  writeUint(bytes, 0, length, value);
+  return bytes;
+}
+
+function uintMinimal(value: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && value >= 2 ** (8 * length)) length++;
+  return uint(value, length);
+}
+
+function latin1(data: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...data.subarray(start, end));
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (ch) => ch.charCodeAt(0) & 0xff);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
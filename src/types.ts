@@ -6,28 +6,45 @@
  */
 
 import type { Innertube } from 'youtubei.js';
+import type { StreamClient } from '../types/media';
 
 // ─── Streaming / Format Types ───────────────────────────────────
 
 export interface InnertubeFormat {
+  itag?: number;
   has_video: boolean;
   has_audio: boolean;
   height?: number;
   mime_type?: string;
   quality_label?: string;
   content_length?: number;
+  bitrate?: number;
+  average_bitrate?: number;
+  audio_sample_rate?: number;
+  audio_channels?: number;
+  is_drc?: boolean;
+  audio_track?: { audio_is_default?: boolean; display_name?: string; id?: string };
   decipher(player: unknown): Promise<string>;
 }
 
 export interface InnertubeStreamingData {
+  expires?: Date;
   hls_manifest_url?: string;
   formats?: InnertubeFormat[];
   adaptive_formats?: InnertubeFormat[];
 }
 
+export interface InnertubePlayabilityStatus {
+  /** `OK`, `ERROR`, `UNPLAYABLE`, `LOGIN_REQUIRED`, `AGE_CHECK_REQUIRED`, ... */
+  status?: string;
+  reason?: string;
+}
+
 export interface InnertubeVideoInfo {
+  playability_status?: InnertubePlayabilityStatus;
   streaming_data?: InnertubeStreamingData;
-  basic_info?: { title?: string; channel?: { name?: string }; author?: string };
+  captions?: InnertubeCaptions;
+  basic_info?: { title?: string; channel?: { name?: string }; author?: string; duration?: number; short_description?: string };
   chooseFormat(options: { quality: string; type: string }): InnertubeFormat;
   toDash(): Promise<string>;
 }
@@ -38,12 +55,78 @@ export interface VideoFormatEntry {
   label: string;
 }
 
+// ─── Caption Types ──────────────────────────────────────────────
+
+export interface InnertubeCaptionTrack {
+  base_url: string;
+  name?: InnertubeText;
+  vss_id?: string;
+  language_code: string;
+  /** `asr` marks auto-generated (speech recognition) tracks */
+  kind?: 'asr' | 'frc';
+  is_translatable?: boolean;
+}
+
+export interface InnertubeCaptions {
+  caption_tracks?: InnertubeCaptionTrack[];
+  audio_tracks?: Array<{ default_caption_track_index?: number; caption_track_indices?: number[] }>;
+  default_audio_track_index?: number;
+}
+
+export interface SubtitleCue {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  text: string;
+}
+
+// ─── Lyrics Types ───────────────────────────────────────────────
+
+export interface TimedLyricsEntry {
+  lyricLine?: string;
+  cueRange?: { startTimeMilliseconds?: string; endTimeMilliseconds?: string };
+}
+
+/** `timedLyricsModel.lyricsData` from the ANDROID_MUSIC lyrics browse page */
+export interface TimedLyricsData {
+  timedLyricsData?: TimedLyricsEntry[];
+  sourceMessage?: string;
+}
+
+// ─── Account Types ──────────────────────────────────────────────
+
+export interface OAuthClient {
+  client_id: string;
+  client_secret: string;
+}
+
+/** OAuth2 tokens in the shape youtubei.js `session.signIn` expects */
+export interface OAuthCredentials {
+  access_token: string;
+  refresh_token: string;
+  /** ISO timestamp */
+  expiry_date: string;
+  scope?: string;
+  token_type?: string;
+  client?: OAuthClient;
+}
+
+export interface PendingSignIn {
+  deviceCode: string;
+  client: OAuthClient;
+  expiresAt: number;
+}
+
 // ─── Cache Types ────────────────────────────────────────────────
 
 export interface VideoInfoCache {
   contentId: string;
+  client: StreamClient;
   info: InnertubeVideoInfo;
   innertube: Innertube;
+  /** Epoch ms after which the stream URLs should be re-resolved */
+  expiresAt: number;
 }
 
 export interface HlsManifestCache {
@@ -73,28 +156,47 @@ export interface InnertubeFlexColumn {
 export interface InnertubeArtist {
   name?: string;
   text?: string;
+  channel_id?: string;
+}
+
+/** MusicInlineBadge (explicit, downloaded, ...) */
+export interface InnertubeBadge {
+  type?: string;
+  icon_type?: string;
 }
 
 export interface InnertubeEndpoint {
   payload?: {
     browseId?: string;
     videoId?: string;
+    /** Set on ContinuationItem endpoints */
+    token?: string;
+    watchEndpointMusicSupportedConfigs?: { watchEndpointMusicConfig?: { musicVideoType?: string } };
   };
 }
 
 export interface InnertubeListItem {
   type?: string;
   id?: string;
+  item_type?: string;
   title?: InnertubeText;
   subtitle?: InnertubeText;
   endpoint?: InnertubeEndpoint;
   navigation_endpoint?: InnertubeEndpoint;
   overlay?: { content?: { endpoint?: InnertubeEndpoint; payload?: { videoId?: string } } };
-  on_tap?: { payload?: { videoId?: string } };
+  on_tap?: InnertubeEndpoint;
   flex_columns?: InnertubeFlexColumn[];
   flexColumns?: InnertubeFlexColumn[];
+  fixed_columns?: InnertubeFlexColumn[];
   artists?: InnertubeArtist[];
-  author?: { name?: string };
+  author?: { name?: string; channel_id?: string };
+  album?: { id?: string; name?: string };
+  duration?: { text?: string; seconds?: number };
+  badges?: InnertubeBadge[] | null;
+  year?: string;
+  views?: string;
+  /** MusicMultiRowListItem (podcast episode) */
+  description?: InnertubeText;
   thumbnail?: unknown;
   thumbnails?: Array<{ url?: string }>;
   thumbnail_renderer?: unknown;
@@ -104,6 +206,8 @@ export interface InnertubeListItem {
 
 export interface InnertubeSection {
   type?: string;
+  title?: InnertubeText;
+  continuation?: string;
   header?: { title?: InnertubeText };
   contents?: InnertubeListItem[];
 }
@@ -120,15 +224,67 @@ export interface InnertubeVideoResult {
   duration?: { seconds?: number } | number;
 }
 
+export interface InnertubeMusicSearch {
+  contents?: InnertubeSection[];
+  has_continuation?: boolean;
+}
+
+/** Parsed `/search` continuation page (a MusicShelfContinuation) */
+export interface InnertubeShelfContinuation {
+  contents?: InnertubeListItem[] | null;
+  continuation?: string;
+}
+
+/** Raw (unparsed) musicShelfRenderer, used where youtubei.js would drop non-song rows */
+export interface RawMusicShelf {
+  contents?: Record<string, unknown>[];
+  continuations?: Array<{ nextContinuationData?: { continuation?: string } }>;
+}
+
+/** AppendContinuationItemsAction: newer responses append items (ending in a ContinuationItem) this way */
+export interface InnertubeAppendAction {
+  contents?: InnertubeListItem[] | null;
+}
+
+// ─── Watch Playlist (Radio) Types ───────────────────────────────
+
+export interface InnertubePlaylistPanelVideo {
+  type?: string;
+  video_id?: string;
+  title?: InnertubeText;
+  author?: string;
+  artists?: Array<{ name?: string; channel_id?: string }>;
+  album?: { id?: string; name?: string; year?: string };
+  duration?: { text?: string; seconds?: number };
+  badges?: InnertubeBadge[];
+  thumbnail?: Array<{ url?: string }>;
+  /** Set on PlaylistPanelVideoWrapper nodes */
+  primary?: InnertubePlaylistPanelVideo | null;
+}
+
+/** PlaylistPanel (first page) or PlaylistPanelContinuation (later pages) */
+export interface InnertubePlaylistPanel {
+  playlist_id?: string;
+  contents?: InnertubePlaylistPanelVideo[] | null;
+  continuation?: string | null;
+}
+
 // ─── Lockup / Next Endpoint Types ───────────────────────────────
 
 export interface LockupThumbnail {
   url?: string;
 }
 
+/** Badge drawn over a lockup thumbnail, e.g. the "3:45" duration */
+export interface LockupThumbnailOverlay {
+  thumbnailOverlayBadgeViewModel?: {
+    thumbnailBadges?: Array<{ thumbnailBadgeViewModel?: { text?: string } }>;
+  };
+}
+
 export interface LockupContentImage {
   collectionThumbnailViewModel?: { primaryThumbnail?: { thumbnailViewModel?: { image?: { sources?: LockupThumbnail[] } } } };
-  thumbnailViewModel?: { image?: { sources?: LockupThumbnail[] } };
+  thumbnailViewModel?: { image?: { sources?: LockupThumbnail[] }; overlays?: LockupThumbnailOverlay[] };
   decoratedThumbnailViewModel?: { thumbnail?: { thumbnailViewModel?: { image?: { sources?: LockupThumbnail[] } } } };
 }
 
@@ -162,6 +318,30 @@ export interface CompactVideoRenderer {
   shortBylineText?: { runs?: Array<{ text?: string }> };
   thumbnail?: { thumbnails?: Array<{ url?: string }> };
   lengthText?: { simpleText?: string };
+  viewCountText?: { simpleText?: string };
+}
+
+/** The parts of a youtubei.js `VideoInfo` used to report playback to watch history */
+export interface InnertubeTrackedInfo {
+  cpn: string;
+  page: [{ playback_tracking?: { videostats_watchtime_url?: string } }, ...unknown[]];
+  actions: {
+    stats(url: string, client: { client_name: string; client_version: string }, params: Record<string, unknown>): Promise<Response>;
+  };
+  addToWatchHistory(): Promise<Response>;
+}
+
+/** Entry of `multiMarkersPlayerBarRenderer.markersMap` in a `/next` response */
+export interface ChapterMarkerMap {
+  key?: string;
+  value?: {
+    chapters?: Array<{
+      chapterRenderer?: {
+        title?: { simpleText?: string; runs?: Array<{ text?: string }> };
+        timeRangeStartMillis?: number;
+      };
+    }>;
+  };
 }
 
 export interface NextEndpointResult {
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { runBatch, type BatchOutcome } from '../src/batch';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe('runBatch', () => {
+  it('keeps input order, runs duplicates once and isolates failures', async () => {
+    const calls: string[] = [];
+    const outcomes = await runBatch(['a', 'b', 'a', 'c'], async (id) => {
+      calls.push(id);
+      await tick();
+      if (id === 'b') throw new Error('boom');
+      return id.toUpperCase();
+    }, { concurrency: 2 });
+
+    expect(calls.sort()).toEqual(['a', 'b', 'c']);
+    expect(outcomes.map((o) => o.contentId)).toEqual(['a', 'b', 'a', 'c']);
+    expect(outcomes[0]).toEqual({ contentId: 'a', ok: true, value: 'A' });
+    expect(outcomes[2]).toBe(outcomes[0]);
+    expect(outcomes[1]).toMatchObject({ contentId: 'b', ok: false });
+    expect(outcomes[3]).toEqual({ contentId: 'c', ok: true, value: 'C' });
+  });
+
+  it('never runs more tasks than the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    await runBatch(['1', '2', '3', '4', '5', '6', '7'], async () => {
+      peak = Math.max(peak, ++running);
+      await tick();
+      running--;
+    }, { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it('reports the remaining IDs as cancelled after an abort', async () => {
+    const controller = new AbortController();
+    const settled: Array<BatchOutcome<string>> = [];
+    const outcomes = await runBatch(['a', 'b', 'c'], async (id) => {
+      controller.abort();
+      return id;
+    }, {
+      concurrency: 1,
+      signal: controller.signal,
+      onResult: (outcome) => {
+        settled.push(outcome);
+        throw new Error('listener errors are ignored');
+      },
+    });
+
+    expect(outcomes[0]).toEqual({ contentId: 'a', ok: true, value: 'a' });
+    expect(outcomes.slice(1)).toMatchObject([
+      { contentId: 'b', ok: false, cancelled: true },
+      { contentId: 'c', ok: false, cancelled: true },
+    ]);
+    expect(settled).toHaveLength(3);
+  });
+
+  it('handles an empty batch', async () => {
+    expect(await runBatch([], async () => 1, { concurrency: 4 })).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PersistentCache } from '../src/cache';
+import type { SourceHost } from '../types/host';
+
+function memoryHost(files = new Map<string, string>()): SourceHost & { files: Map<string, string> } {
+  return {
+    files,
+    fileExists: (path: string) => files.has(path),
+    readFile: (path: string) => files.get(path) ?? '',
+    writeFile: (path: string, content: string) => { files.set(path, content); },
+    log: () => {},
+  } as unknown as SourceHost & { files: Map<string, string> };
+}
+
+describe('PersistentCache', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('returns values until they expire, then peek flags them stale', () => {
+    const cache = new PersistentCache(memoryHost(), { dir: 'c', maxEntries: 10 });
+    cache.set('k', { n: 1 }, 1000);
+    expect(cache.get('k')).toEqual({ n: 1 });
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.peek('k')).toEqual({ value: { n: 1 }, stale: true });
+  });
+
+  it('hands out copies', () => {
+    const cache = new PersistentCache(memoryHost(), { dir: 'c', maxEntries: 10 });
+    cache.set('k', { items: [1] }, 1000);
+    cache.get<{ items: number[] }>('k')!.items.push(2);
+    cache.peek<{ items: number[] }>('k')!.value.items.push(3);
+    expect(cache.get('k')).toEqual({ items: [1] });
+  });
+
+  it('evicts the least recently used entry and keeps the file count bounded', () => {
+    const host = memoryHost();
+    const cache = new PersistentCache(host, { dir: 'c', maxEntries: 2 });
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.get('a');
+    cache.set('c', 3, 1000);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect([...host.files.keys()].sort()).toEqual(['c/index.json', 'c/slot_0.json', 'c/slot_1.json']);
+  });
+
+  it('reloads entries and recency from disk', () => {
+    const host = memoryHost();
+    const first = new PersistentCache(host, { dir: 'c', maxEntries: 2 });
+    first.set('a', 'A', 1000);
+    first.set('b', 'B', 1000);
+    first.get('a');
+    first.flush();
+
+    const second = new PersistentCache(host, { dir: 'c', maxEntries: 2 });
+    second.set('c', 'C', 1000);
+    expect(second.get('a')).toBe('A');
+    expect(second.get('b')).toBeUndefined();
+  });
+
+  it('never reads a reused slot as another key', () => {
+    const host = memoryHost();
+    const cache = new PersistentCache(host, { dir: 'c', maxEntries: 1 });
+    cache.set('a', 'A', 1000);
+    const staleIndex = host.files.get('c/index.json')!;
+    cache.set('b', 'B', 1000);
+    // An index written before the slot was reused still points 'a' at slot 0
+    host.files.set('c/index.json', staleIndex);
+    expect(new PersistentCache(host, { dir: 'c', maxEntries: 1 }).get('a')).toBeUndefined();
+  });
+
+  it('deletes by key and prefix', () => {
+    const cache = new PersistentCache(memoryHost(), { dir: 'c', maxEntries: 10 });
+    cache.set('skip:1', 1, 1000);
+    cache.set('skip:2', 2, 1000);
+    cache.set('other', 3, 1000);
+    cache.deletePrefix('skip:');
+    expect(cache.get('skip:1')).toBeUndefined();
+    expect(cache.get('skip:2')).toBeUndefined();
+    cache.delete('other');
+    expect(cache.get('other')).toBeUndefined();
+  });
+
+  it('starts fresh from an unreadable index', () => {
+    const host = memoryHost(new Map([['c/index.json', '{not json']]));
+    const cache = new PersistentCache(host, { dir: 'c', maxEntries: 10 });
+    expect(cache.get('a')).toBeUndefined();
+    cache.set('a', 1, 1000);
+    expect(cache.get('a')).toBe(1);
+  });
+});
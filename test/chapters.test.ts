@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { chapterItems, chaptersFromDescription, chaptersFromMarkers } from '../src/chapters';
+import type { MediaItem } from '../types/media';
+
+function marker(title: string, ms: number) {
+  return { chapterRenderer: { title: { simpleText: title }, timeRangeStartMillis: ms } };
+}
+
+describe('chaptersFromMarkers', () => {
+  it('prefers uploader chapters over auto-generated ones', () => {
+    const chapters = chaptersFromMarkers([
+      { key: 'AUTO_CHAPTERS', value: { chapters: [marker('Auto', 0)] } },
+      { key: 'DESCRIPTION_CHAPTERS', value: { chapters: [marker(' Intro ', 0), { chapterRenderer: { title: { runs: [{ text: 'Main' }, { text: ' part' }] }, timeRangeStartMillis: 61500 } }] } },
+    ], 120);
+    expect(chapters).toEqual([
+      { title: 'Intro', start: 0, end: 61.5 },
+      { title: 'Main part', start: 61.5, end: 120 },
+    ]);
+  });
+
+  it('returns nothing without markers', () => {
+    expect(chaptersFromMarkers(undefined)).toEqual([]);
+    expect(chaptersFromMarkers([{ key: 'HEATSEEKER' }])).toEqual([]);
+  });
+});
+
+describe('chaptersFromDescription', () => {
+  it('parses tracklists in common layouts', () => {
+    const description = [
+      'Full album. See 3:15 for the best part.',
+      '0:00 Intro',
+      '02. Second Song - 4:05',
+      '[8:30] Third | ',
+      '1:02:03 – Finale',
+    ].join('\n');
+    expect(chaptersFromDescription(description, 4000)).toEqual([
+      { title: 'Intro', start: 0, end: 245 },
+      { title: 'Second Song', start: 245, end: 510 },
+      { title: 'Third', start: 510, end: 3723 },
+      { title: 'Finale', start: 3723, end: 4000 },
+    ]);
+  });
+
+  it('requires a list starting at 0:00 in ascending order', () => {
+    expect(chaptersFromDescription('1:00 A\n2:00 B\n3:00 C')).toEqual([]);
+    expect(chaptersFromDescription('0:00 A\n2:00 B\n1:00 late\n3:00 C').map((c) => c.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('ignores short lists and timestamps past the end', () => {
+    expect(chaptersFromDescription('0:00 A\n1:00 B')).toEqual([]);
+    expect(chaptersFromDescription('0:00 A\n1:00 B\n2:00 C\n9:00 D', 300).map((c) => c.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('falls back to the timestamp for untitled lines', () => {
+    expect(chaptersFromDescription('0:00\n1:00 B\n2:00 C')[0].title).toBe('0:00');
+  });
+});
+
+describe('chapterItems', () => {
+  it('makes one virtual track per chapter', () => {
+    const item = { id: 'v', contentId: 'v', title: 'Live Set', artist: 'DJ', duration: 600 } as MediaItem;
+    const items = chapterItems(item, [{ title: 'One', start: 0, end: 200 }, { title: 'Two', start: 200.25 }]);
+    expect(items).toEqual([
+      { ...item, id: 'v@0', title: 'One', album: 'Live Set', duration: 200, startOffset: 0, endOffset: 200 },
+      { ...item, id: 'v@200250', title: 'Two', album: 'Live Set', duration: 399.75, startOffset: 200.25, endOffset: 600 },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientHealth, defaultClientChain } from '../src/clients';
+import type { SourceHost } from '../types/host';
+import type { StreamClient } from '../types/media';
+
+function storageHost(values = new Map<string, string>()): SourceHost {
+  return {
+    storage: {
+      get: (key: string) => values.get(key) ?? null,
+      set: (key: string, value: string) => { values.set(key, value); },
+      delete: (key: string) => { values.delete(key); },
+    },
+    log: () => {},
+  } as unknown as SourceHost;
+}
+
+const CHAIN: StreamClient[] = ['ANDROID', 'IOS', 'TV_EMBEDDED'];
+const MINUTE = 60 * 1000;
+
+describe('defaultClientChain', () => {
+  it('leads with IOS on iOS only', () => {
+    expect(defaultClientChain('ios')[0]).toBe('IOS');
+    expect(defaultClientChain('android')[0]).toBe('ANDROID');
+  });
+});
+
+describe('ClientHealth', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('demotes a client after repeated failures and backs off exponentially', () => {
+    const health = new ClientHealth(storageHost(), 'health');
+    health.recordFailure('ANDROID', new Error('first'));
+    expect(health.order(CHAIN)).toEqual(CHAIN);
+
+    health.recordFailure('ANDROID', new Error('second'));
+    expect(health.order(CHAIN)).toEqual(['IOS', 'TV_EMBEDDED', 'ANDROID']);
+    expect(health.status(CHAIN)[2]).toEqual({
+      client: 'ANDROID', healthy: false, failures: 2, demotedUntil: Date.now() + 15 * MINUTE, lastError: 'second',
+    });
+
+    vi.advanceTimersByTime(15 * MINUTE);
+    expect(health.order(CHAIN)).toEqual(CHAIN);
+    health.recordFailure('ANDROID', 'third');
+    expect(health.status(CHAIN)[2].demotedUntil).toBe(Date.now() + 30 * MINUTE);
+  });
+
+  it('orders demoted clients by when they recover', () => {
+    const health = new ClientHealth(storageHost(), 'health');
+    for (let i = 0; i < 3; i++) health.recordFailure('ANDROID', 'x');
+    for (let i = 0; i < 2; i++) health.recordFailure('IOS', 'x');
+    expect(health.order(CHAIN)).toEqual(['TV_EMBEDDED', 'IOS', 'ANDROID']);
+  });
+
+  it('forgets failures after a success', () => {
+    const health = new ClientHealth(storageHost(), 'health');
+    health.recordFailure('IOS', 'x');
+    health.recordFailure('IOS', 'x');
+    health.recordSuccess('IOS');
+    expect(health.order(CHAIN)).toEqual(CHAIN);
+    expect(health.status(CHAIN)[1]).toMatchObject({ client: 'IOS', healthy: true, failures: 0 });
+  });
+
+  it('persists across instances and resets', () => {
+    const values = new Map<string, string>();
+    const first = new ClientHealth(storageHost(values), 'health');
+    first.recordFailure('ANDROID', 'x');
+    first.recordFailure('ANDROID', 'x');
+
+    const second = new ClientHealth(storageHost(values), 'health');
+    expect(second.order(CHAIN)[2]).toBe('ANDROID');
+    second.reset();
+    expect(values.has('health')).toBe(false);
+    expect(new ClientHealth(storageHost(values), 'health').order(CHAIN)).toEqual(CHAIN);
+  });
+
+  it('ignores corrupt stored state', () => {
+    const health = new ClientHealth(storageHost(new Map([['health', '{']])), 'health');
+    expect(health.order(CHAIN)).toEqual(CHAIN);
+  });
+});
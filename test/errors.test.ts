@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NotSignedInError,
+  YouTubeSourceError,
+  assertPlayable,
+  codeForStatus,
+  isTransportError,
+  mostSpecificError,
+  toSourceError,
+} from '../src/errors';
+
+describe('toSourceError', () => {
+  it('passes source errors through', () => {
+    const error = new NotSignedInError('rate tracks');
+    expect(toSourceError(error)).toBe(error);
+    expect(error).toMatchObject({ code: 'LOGIN_REQUIRED', retryable: false, message: 'Sign in to rate tracks' });
+  });
+
+  it('maps HTTP statuses from youtubei.js messages', () => {
+    expect(toSourceError(new Error('Request to X failed with status 429'), 'Load')).toMatchObject({
+      code: 'RATE_LIMITED', retryable: true, message: 'Load: Request to X failed with status 429',
+    });
+    expect(toSourceError(new Error('Request to X failed with status 404')).code).toBe('UNAVAILABLE');
+    expect(toSourceError(new Error('Request to X failed with status 503')).code).toBe('NETWORK');
+  });
+
+  it('uses the playability status attached to the error', () => {
+    const error = Object.assign(new Error('This video is unavailable'), { info: { status: 'UNPLAYABLE', reason: 'Not available in your country' } });
+    expect(toSourceError(error)).toMatchObject({ code: 'GEO_BLOCKED', reason: 'Not available in your country' });
+  });
+
+  it('classifies parse, network and unknown failures', () => {
+    expect(toSourceError(new SyntaxError('Unexpected token')).code).toBe('PARSE');
+    expect(toSourceError(new TypeError('x is undefined')).code).toBe('PARSE');
+    expect(toSourceError(new TypeError('Network request failed')).code).toBe('NETWORK');
+    expect(toSourceError(new Error('connect ECONNREFUSED')).code).toBe('NETWORK');
+    expect(toSourceError('weird').code).toBe('UNKNOWN');
+  });
+});
+
+describe('codeForStatus', () => {
+  it('maps only statuses with a clear meaning', () => {
+    expect([429, 401, 404, 410, 500, 599, 400, 403].map(codeForStatus)).toEqual([
+      'RATE_LIMITED', 'LOGIN_REQUIRED', 'UNAVAILABLE', 'UNAVAILABLE', 'NETWORK', 'NETWORK', undefined, undefined,
+    ]);
+  });
+});
+
+describe('isTransportError', () => {
+  it('is true only when the request never got an answer', () => {
+    expect(isTransportError(toSourceError(new TypeError('Network request failed')))).toBe(true);
+    expect(isTransportError(toSourceError(new Error('fetch failed')))).toBe(true);
+    expect(isTransportError(toSourceError(new Error('Request to X failed with status 502')))).toBe(false);
+    expect(isTransportError(new YouTubeSourceError('UNAVAILABLE', 'fetch failed'))).toBe(false);
+  });
+});
+
+describe('mostSpecificError', () => {
+  it('picks the most actionable code, earliest on ties', () => {
+    const network = new YouTubeSourceError('NETWORK', 'a');
+    const firstAge = new YouTubeSourceError('AGE_RESTRICTED', 'b');
+    const secondAge = new YouTubeSourceError('AGE_RESTRICTED', 'c');
+    expect(mostSpecificError([network, firstAge, secondAge])).toBe(firstAge);
+    expect(mostSpecificError([])).toBeUndefined();
+  });
+});
+
+describe('assertPlayable', () => {
+  it('throws with a code derived from the status and reason', () => {
+    expect(() => assertPlayable({ status: 'OK' }, 'id')).not.toThrow();
+    expect(() => assertPlayable(undefined, 'id')).not.toThrow();
+    expect(() => assertPlayable({ status: 'LOGIN_REQUIRED', reason: 'Sign in to confirm your age' }, 'id')).toThrow(
+      expect.objectContaining({ code: 'AGE_RESTRICTED' }),
+    );
+    expect(() => assertPlayable({ status: 'LOGIN_REQUIRED', reason: 'Sign in to confirm you\'re not a bot' }, 'id')).toThrow(
+      expect.objectContaining({ code: 'RATE_LIMITED' }),
+    );
+    expect(() => assertPlayable({ status: 'ERROR' }, 'id')).toThrow(expect.objectContaining({ code: 'UNAVAILABLE', message: 'Video id is not playable' }));
+  });
+});
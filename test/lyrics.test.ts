@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { lrcToLyrics, parseLrc, serializeLrc } from '../src/lyrics';
+import type { Lyrics } from '../types/media';
+
+function roundTrip(lyrics: Lyrics): Lyrics {
+  return lrcToLyrics(parseLrc(serializeLrc(lyrics)));
+}
+
+describe('parseLrc', () => {
+  it('reads tags, timed lines and their ends', () => {
+    const parsed = parseLrc('[ti:Song]\n[ar:Artist]\n[00:01.00]One\n[00:02.50]Two\n[00:04.00]\n');
+    expect(parsed.tags).toEqual({ ti: 'Song', ar: 'Artist' });
+    expect(parsed.lines).toEqual([
+      { start: 1, end: 2.5, text: 'One' },
+      { start: 2.5, end: 4, text: 'Two' },
+    ]);
+    expect(parsed.text).toBe('One\nTwo');
+  });
+
+  it('expands lines with several timestamps and sorts them', () => {
+    const parsed = parseLrc('[00:05.00][00:01.00]Chorus\n[00:03.00]Verse\n');
+    expect(parsed.lines.map((l) => [l.start, l.text])).toEqual([[1, 'Chorus'], [3, 'Verse'], [5, 'Chorus']]);
+  });
+
+  it('accepts minute-only colons and millisecond fractions', () => {
+    expect(parseLrc('[01:02:5]A\n[01:03.125]B').lines.map((l) => l.start)).toEqual([62.5, 63.125]);
+  });
+
+  it('applies the offset tag', () => {
+    expect(parseLrc('[offset:500]\n[00:02.00]A').lines[0].start).toBe(1.5);
+  });
+
+  it('keeps plain lyrics line by line', () => {
+    const parsed = parseLrc('  First\n\nSecond  \n');
+    expect(parsed.lines).toEqual([]);
+    expect(parsed.text).toBe('  First\n\nSecond  ');
+  });
+});
+
+describe('serializeLrc', () => {
+  it('writes the source as the by tag', () => {
+    const lrc = serializeLrc({ text: 'A', source: 'Source: X', lines: [{ start: 1, text: 'A' }] }, { ti: 'T' });
+    expect(lrc).toBe('[ti:T]\n[by:Source: X]\n[00:01.00]A\n');
+  });
+
+  it('writes ends only where the next line does not start', () => {
+    const lrc = serializeLrc({ text: 'A\nB', lines: [{ start: 1, end: 2, text: 'A' }, { start: 3, end: 4.005, text: 'B' }] });
+    expect(lrc).toBe('[00:01.00]A\n[00:02.00]\n[00:03.00]B\n[00:04.005]\n');
+  });
+
+  it('round-trips timed lines exactly', () => {
+    const lyrics: Lyrics = {
+      text: 'One\n  indented\n[bracketed]\n\\escaped',
+      lines: [
+        { start: 0.5, end: 1, text: 'One' },
+        { start: 1, end: 2, text: '  indented' },
+        { start: 2, end: 2.75, text: '[bracketed]' },
+        { start: 3, text: '\\escaped' },
+      ],
+    };
+    expect(roundTrip(lyrics)).toEqual(lyrics);
+  });
+
+  it('round-trips blank timed lines and trailing whitespace', () => {
+    const lyrics: Lyrics = { text: 'A \n\nB', lines: [{ start: 1, end: 2, text: 'A ' }, { start: 2, end: 3, text: '' }, { start: 3, text: 'B' }] };
+    expect(roundTrip(lyrics)).toEqual(lyrics);
+  });
+
+  it('keeps plain text that differs from the timed lines', () => {
+    const lyrics: Lyrics = { text: 'Full text\n\nwith a gap', lines: [{ start: 1, text: 'Full text' }] };
+    expect(roundTrip(lyrics)).toEqual(lyrics);
+  });
+
+  it('round-trips plain lyrics that look like tags or timestamps', () => {
+    const lyrics: Lyrics = { text: '[ar:not a tag]\n[00:01.00] not a time\n\n  spaced ', source: 'Somewhere' };
+    expect(roundTrip(lyrics)).toEqual({ ...lyrics, lines: undefined });
+  });
+});
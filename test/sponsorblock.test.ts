@@ -0,0 +1,57 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { fetchSkipSegments, sha256Hex } from '../src/sponsorblock';
+import type { SourceHost } from '../types/host';
+
+describe('sha256Hex', () => {
+  it('matches known digests', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('agrees with node:crypto across block boundaries and UTF-8 input', () => {
+    for (const text of ['dQw4w9WgXcQ', 'a'.repeat(55), 'b'.repeat(56), 'c'.repeat(64), 'd'.repeat(200), 'héllo ✓ 音楽']) {
+      expect(sha256Hex(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+    }
+  });
+});
+
+describe('fetchSkipSegments', () => {
+  function hostReturning(status: number, body: unknown, urls: string[] = []): SourceHost {
+    return {
+      fetch: async (url: string) => {
+        urls.push(url);
+        return new Response(JSON.stringify(body), { status });
+      },
+    } as unknown as SourceHost;
+  }
+
+  it('sends only a hash prefix and picks the matching video', async () => {
+    const urls: string[] = [];
+    const host = hostReturning(200, [
+      { videoID: 'other', segments: [{ category: 'intro', actionType: 'skip', segment: [0, 5], UUID: 'x' }] },
+      {
+        videoID: 'abc',
+        segments: [
+          { category: 'outro', actionType: 'skip', segment: [90, 100], UUID: 'b' },
+          { category: 'intro', actionType: 'skip', segment: [0, 10], UUID: 'a' },
+          { category: 'intro', actionType: 'mute', segment: [20, 30], UUID: 'c' },
+          { category: 'sponsor', actionType: 'skip', segment: [40, 50], UUID: 'd' },
+        ],
+      },
+    ], urls);
+
+    const segments = await fetchSkipSegments(host, 'https://sb.example/', 'abc', ['intro', 'outro']);
+    expect(segments).toEqual([
+      { start: 0, end: 10, category: 'intro', id: 'a' },
+      { start: 90, end: 100, category: 'outro', id: 'b' },
+    ]);
+    expect(urls[0].startsWith(`https://sb.example/api/skipSegments/${sha256Hex('abc').slice(0, 4)}?`)).toBe(true);
+    expect(urls[0]).not.toContain('abc');
+  });
+
+  it('treats 404 as no segments and other failures as errors', async () => {
+    await expect(fetchSkipSegments(hostReturning(404, {}), 'https://sb.example', 'abc', ['intro'])).resolves.toEqual([]);
+    await expect(fetchSkipSegments(hostReturning(500, {}), 'https://sb.example', 'abc', ['intro'])).rejects.toThrow('status 500');
+  });
+});
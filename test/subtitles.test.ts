@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { cuesToSrt, cuesToVtt, parseTimedText, parseTimedTextJson3, parseTimedTextXml } from '../src/subtitles';
+
+describe('parseTimedTextJson3', () => {
+  it('joins segments and skips empty events', () => {
+    const payload = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello ' }, { utf8: 'world' }] },
+        { tStartMs: 1000, segs: [{ utf8: '\n' }] },
+        { tStartMs: 2000, dDurationMs: 1000, segs: [{ utf8: 'Tom &amp; Jerry' }] },
+      ],
+    });
+    expect(parseTimedTextJson3(payload)).toEqual([
+      { start: 0, end: 1.5, text: 'Hello world' },
+      // JSON3 text is already plain, so entity-like text stays as is
+      { start: 2, end: 3, text: 'Tom &amp; Jerry' },
+    ]);
+  });
+
+  it('returns nothing for invalid JSON', () => {
+    expect(parseTimedTextJson3('{oops')).toEqual([]);
+  });
+});
+
+describe('parseTimedTextXml', () => {
+  it('reads srv3 milliseconds, strips markup and decodes once', () => {
+    const payload = '<timedtext format="3"><body>'
+      + '<p t="1200" d="3400">Rock <s>&amp;</s> roll<br/>line two</p>'
+      + '<p t="5000" d="1000">&amp;lt;b&amp;gt;</p>'
+      + '</body></timedtext>';
+    expect(parseTimedTextXml(payload)).toEqual([
+      { start: 1.2, end: 4.6, text: 'Rock & roll\nline two' },
+      { start: 5, end: 6, text: '&lt;b&gt;' },
+    ]);
+  });
+
+  it('reads legacy seconds and decodes twice', () => {
+    const payload = '<transcript><text start="0.5" dur="2">It&amp;#39;s</text><text start="3" dur="1">&amp;lt;3</text></transcript>';
+    expect(parseTimedTextXml(payload)).toEqual([
+      { start: 0.5, end: 2.5, text: 'It\'s' },
+      { start: 3, end: 4, text: '<3' },
+    ]);
+  });
+
+  it('clips overlapping cues at the next start', () => {
+    const payload = '<transcript><text start="2" dur="1">B</text><text start="0" dur="5">A</text></transcript>';
+    expect(parseTimedTextXml(payload)).toEqual([
+      { start: 0, end: 2, text: 'A' },
+      { start: 2, end: 3, text: 'B' },
+    ]);
+  });
+});
+
+describe('parseTimedText', () => {
+  it('sniffs the format from the payload', () => {
+    expect(parseTimedText('  {"events":[{"tStartMs":0,"dDurationMs":10,"segs":[{"utf8":"x"}]}]}')).toHaveLength(1);
+    expect(parseTimedText('<transcript><text start="0" dur="1">x</text></transcript>')).toHaveLength(1);
+    expect(parseTimedText('WEBVTT')).toEqual([]);
+  });
+});
+
+describe('serialization', () => {
+  const cues = [
+    { start: 0, end: 1.25, text: 'a < b & c --> d' },
+    { start: 3661.5, end: 3662, text: 'Line\nbreak' },
+  ];
+
+  it('writes escaped WebVTT', () => {
+    expect(cuesToVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.250\na &lt; b &amp; c --&gt; d\n\n'
+      + '01:01:01.500 --> 01:01:02.000\nLine\nbreak\n',
+    );
+  });
+
+  it('writes numbered SubRip', () => {
+    expect(cuesToSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,250\na < b & c --> d\n\n'
+      + '2\n01:01:01,500 --> 01:01:02,000\nLine\nbreak\n',
+    );
+  });
+});
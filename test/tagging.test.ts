@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { detectContainer, embedTags, tagsFromItem } from '../src/tagging';
+import type { MediaItem } from '../types/media';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function bytes(...parts: Array<Uint8Array | number[] | string>): Uint8Array {
+  const arrays = parts.map((p) => (typeof p === 'string' ? encoder.encode(p) : Uint8Array.from(p)));
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out;
+}
+
+function u32(value: number): number[] {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function readU32(data: Uint8Array, at: number): number {
+  return ((data[at] << 24) >>> 0) + (data[at + 1] << 16) + (data[at + 2] << 8) + data[at + 3];
+}
+
+/** `needle` is matched as Latin-1 bytes, the way box and element IDs are written. */
+function indexOf(data: Uint8Array, needle: string, from = 0): number {
+  const n = Uint8Array.from(needle, (ch) => ch.charCodeAt(0));
+  outer: for (let i = from; i <= data.length - n.length; i++) {
+    for (let j = 0; j < n.length; j++) if (data[i + j] !== n[j]) continue outer;
+    return i;
+  }
+  return -1;
+}
+
+function count(data: Uint8Array, needle: string): number {
+  let total = 0;
+  for (let i = indexOf(data, needle); i >= 0; i = indexOf(data, needle, i + 1)) total++;
+  return total;
+}
+
+// ─── MP4 ────────────────────────────────────────────────────────
+
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const body = bytes(...children);
+  return bytes(u32(body.length + 8), type, body);
+}
+
+const PAYLOAD = 'AUDIO-SAMPLES';
+
+/** ftyp, then a moov whose single chunk offset points at the mdat payload. */
+function sampleMp4(): Uint8Array {
+  const ftyp = box('ftyp', bytes('M4A '), bytes(u32(0)));
+  const build = (offset: number) => box('moov', box('trak', box('mdia', box('minf', box('stbl',
+    box('stco', bytes(u32(0), u32(1), u32(offset))),
+  )))));
+  const moovLength = build(0).length;
+  const mdatPayloadAt = ftyp.length + moovLength + 8;
+  return bytes(ftyp, build(mdatPayloadAt), box('mdat', bytes(PAYLOAD)));
+}
+
+function chunkOffset(data: Uint8Array): number {
+  return readU32(data, indexOf(data, 'stco') + 12);
+}
+
+describe('MP4 tagging', () => {
+  it('writes ilst items and keeps chunk offsets pointing at the media', () => {
+    const tagged = embedTags(sampleMp4(), { title: 'Song', artist: 'Band', album: 'Record', year: 2020, trackNumber: 3, trackCount: 9 });
+    for (const atom of ['udta', 'meta', 'hdlr', 'ilst', '©nam', '©ART', '©alb', '©day', 'trkn']) {
+      expect(indexOf(tagged, atom), atom).toBeGreaterThan(0);
+    }
+    expect(indexOf(tagged, 'Song')).toBeGreaterThan(0);
+    const offset = chunkOffset(tagged);
+    expect(decoder.decode(tagged.subarray(offset, offset + PAYLOAD.length))).toBe(PAYLOAD);
+  });
+
+  it('replaces earlier tags instead of adding more', () => {
+    const once = embedTags(sampleMp4(), { title: 'First' });
+    const twice = embedTags(once, { title: 'Second', artwork: { data: bytes([0xff, 0xd8, 0xff]), mimeType: 'image/jpeg' } });
+    expect(count(twice, 'ilst')).toBe(1);
+    expect(indexOf(twice, 'First')).toBe(-1);
+    expect(indexOf(twice, 'covr')).toBeGreaterThan(0);
+    const offset = chunkOffset(twice);
+    expect(decoder.decode(twice.subarray(offset, offset + PAYLOAD.length))).toBe(PAYLOAD);
+  });
+
+  it('rejects a file without moov', () => {
+    expect(() => embedTags(box('ftyp', bytes('M4A ')), { title: 'x' })).toThrow('moov');
+  });
+});
+
+// ─── WebM ───────────────────────────────────────────────────────
+
+function ebml(id: number[], ...children: Uint8Array[]): Uint8Array {
+  const body = bytes(...children);
+  // Eight-byte sizes keep the fixture simple
+  const size = [0x01, 0, 0, 0, ...u32(body.length)];
+  return bytes(id, size, body);
+}
+
+const SEGMENT = [0x18, 0x53, 0x80, 0x67];
+const SEEK_HEAD = [0x11, 0x4d, 0x9b, 0x74];
+const TAGS = [0x12, 0x54, 0xc3, 0x67];
+
+function sampleWebm(): Uint8Array {
+  const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], bytes('webm')));
+  const seekHead = ebml(SEEK_HEAD);
+  const padding = bytes([0xec, 0x40 | 0, 60], new Uint8Array(60));
+  const info = ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], bytes([0x0f, 0x42, 0x40])));
+  const cluster = ebml([0x1f, 0x43, 0xb6, 0x75], bytes(PAYLOAD));
+  return bytes(header, ebml(SEGMENT, seekHead, padding, info, cluster));
+}
+
+/** Segment data start and size, for the eight-byte size the fixture uses. */
+function segmentOf(data: Uint8Array): { dataStart: number; size: number } {
+  const at = indexOf(data, String.fromCharCode(...SEGMENT));
+  return { dataStart: at + 12, size: readU32(data, at + 8) };
+}
+
+describe('WebM tagging', () => {
+  it('appends Tags to the segment and indexes them in the SeekHead', () => {
+    const original = sampleWebm();
+    const tagged = embedTags(original, { title: 'Song', artist: 'Band' });
+    const segment = segmentOf(tagged);
+    expect(segment.dataStart + segment.size).toBe(tagged.length);
+    expect(indexOf(tagged, 'TITLE')).toBeGreaterThan(0);
+    expect(indexOf(tagged, 'Song')).toBeGreaterThan(0);
+    expect(indexOf(tagged, PAYLOAD)).toBe(indexOf(original, PAYLOAD));
+
+    // The SeekHead grew into the padding; its Tags entry points at the appended element
+    const seekId = indexOf(tagged, String.fromCharCode(0x53, 0xab, 0x84, ...TAGS));
+    expect(seekId).toBeGreaterThan(0);
+    const positionAt = seekId + 7;
+    expect(tagged[positionAt]).toBe(0x53);
+    const positionLength = tagged[positionAt + 2] & 0x7f;
+    let position = 0;
+    for (let i = 0; i < positionLength; i++) position = position * 256 + tagged[positionAt + 3 + i];
+    const tagsAt = segment.dataStart + position;
+    expect(Array.from(tagged.subarray(tagsAt, tagsAt + 4))).toEqual(TAGS);
+  });
+
+  it('voids earlier tags and attachments when re-tagging', () => {
+    const artwork = { data: bytes([0x89, 0x50, 0x4e, 0x47]), mimeType: 'image/png' };
+    const once = embedTags(sampleWebm(), { title: 'First', artwork });
+    expect(indexOf(once, 'cover.png')).toBeGreaterThan(0);
+    const twice = embedTags(once, { title: 'Second' });
+    expect(indexOf(twice, 'First')).toBe(-1);
+    expect(indexOf(twice, 'cover.png')).toBe(-1);
+    expect(indexOf(twice, 'Second')).toBeGreaterThan(0);
+    const segment = segmentOf(twice);
+    expect(segment.dataStart + segment.size).toBe(twice.length);
+  });
+});
+
+describe('detectContainer / tagsFromItem', () => {
+  it('sniffs containers', () => {
+    expect(detectContainer(sampleMp4())).toBe('mp4');
+    expect(detectContainer(sampleWebm())).toBe('webm');
+    expect(detectContainer(bytes('ID3\u0004'))).toBeNull();
+    expect(() => embedTags(bytes('ID3\u0004\u0000\u0000\u0000\u0000'), { title: 'x' })).toThrow('Unsupported');
+  });
+
+  it('maps item fields', () => {
+    const item = { contentId: 'id', title: 'T', artist: 'A', album: 'B', year: 1999 } as MediaItem;
+    expect(tagsFromItem(item)).toEqual({ title: 'T', artist: 'A', album: 'B', year: 1999, artwork: undefined });
+  });
+});
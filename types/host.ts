@@ -27,6 +27,12 @@ export interface SourceHost {
   /** Write text content to a file. Creates parent directories as needed. */
   writeFile(relativePath: string, content: string): void;
 
+  /** Read a file as raw bytes. Optional — not every host supports binary I/O. */
+  readBinaryFile?(relativePath: string): Uint8Array;
+
+  /** Write raw bytes to a file. Creates parent directories as needed. */
+  writeBinaryFile?(relativePath: string, data: Uint8Array): void;
+
   /** Ensure a directory exists (creates recursively if needed). */
   ensureDirectory(relativePath: string): void;
 
@@ -11,11 +11,42 @@ export type {
   MediaCapabilities,
   MediaItem,
   AudioPlaybackInfo,
+  AudioQuality,
+  AudioCodec,
+  AudioQualityPreference,
+  AudioFormatInfo,
+  BatchResolveOptions,
+  BatchResolveResult,
+  StreamClient,
+  ClientStatus,
+  SourceLocale,
   VideoPlaybackInfo,
   VideoQuality,
   SubtitleTrack,
+  RadioSeed,
+  RadioPage,
+  RadioOptions,
+  Lyrics,
+  LyricLine,
+  Chapter,
+  SkipSegmentCategory,
+  SkipSegment,
+  SearchFilter,
+  SearchOptions,
+  SearchResult,
   MediaFeedSection,
   MediaFeedItem,
+  PlayHistoryEntry,
+  PlayHistoryPage,
   MediaCollection,
+  CollectionPage,
+  SignInChallenge,
+  SignInStatus,
+  AccountInfo,
+  TrackRating,
   DownloadInfo,
+  DownloadState,
+  DownloadTask,
+  SourceErrorCode,
+  SourceError,
 } from './media';
@@ -27,6 +27,8 @@ export interface MediaCapabilities {
   movies: boolean;
   /** Source can provide subtitle tracks */
   subtitles: boolean;
+  /** Source can provide (optionally time-synced) lyrics */
+  lyrics?: boolean;
 }
 
 // ─── MediaItem (unified content model) ──────────────────────────
@@ -54,10 +56,26 @@ export interface MediaItem {
   /** Wide banner image (used for movie/series backdrops) */
   backdrop?: string;
 
+  /**
+   * Playback window (seconds) within `contentId`, set on virtual tracks cut
+   * from a longer video such as a chapter of a mix. Play from `startOffset`
+   * and stop at `endOffset`.
+   */
+  startOffset?: number;
+  endOffset?: number;
+
   // ─── Music fields ───────────────────────────────────────────
 
   artist?: string;
   album?: string;
+  /** Browse ID of `album`, for opening it with `getCollection` */
+  albumId?: string;
+  /** Browse ID of the (first) artist */
+  artistId?: string;
+  /** Marked explicit by the source */
+  explicit?: boolean;
+  /** Play count for songs, view count for videos */
+  playCount?: number;
 
   // ─── Movie / Series fields ──────────────────────────────────
 
@@ -73,6 +91,8 @@ export interface MediaItem {
   episodeNumber?: number;
   seriesId?: string;
   seriesTitle?: string;
+  /** Publish date as displayed by the source (localized, e.g. "Mar 3, 2024") */
+  published?: string;
 }
 
 // ─── Playback ───────────────────────────────────────────────────
@@ -80,9 +100,81 @@ export interface MediaItem {
 export interface AudioPlaybackInfo {
   url: string;
   headers?: Record<string, string>;
+  /** Epoch ms after which `url` stops working; refresh before then */
   expiresAt?: number;
 }
 
+/** `max` keeps the best available stream (adaptive HLS on iOS). */
+export type AudioQuality = 'low' | 'normal' | 'high' | 'max';
+
+export type AudioCodec = 'any' | 'aac' | 'opus';
+
+export interface AudioQualityPreference {
+  quality: AudioQuality;
+  /** Preferred codec; other codecs are used only when it is unavailable */
+  codec: AudioCodec;
+}
+
+export interface AudioFormatInfo {
+  itag: number;
+  mimeType: string;
+  codec: 'aac' | 'opus' | 'unknown';
+  /** Bits per second */
+  bitrate: number;
+  /** Bytes, 0 when unknown */
+  contentLength: number;
+  sampleRate?: number;
+  channels?: number;
+  /** Audio track language label for multi-language uploads */
+  trackName?: string;
+}
+
+export interface BatchResolveOptions {
+  /** `download` resolves `DownloadInfo` (direct stream with size) instead of playback info */
+  kind?: 'playback' | 'download';
+  /** Maximum resolutions in flight at once (default 3) */
+  concurrency?: number;
+  /** Abort to stop starting new resolutions; remaining items fail with `CANCELLED` */
+  signal?: AbortSignal;
+  /** Called as each item settles, before the whole batch finishes */
+  onResult?(result: BatchResolveResult): void;
+}
+
+export type BatchResolveResult =
+  | { contentId: string; ok: true; info: AudioPlaybackInfo | DownloadInfo }
+  | { contentId: string; ok: false; error: SourceError };
+
+/** Innertube clients that stream resolution can fall back through. */
+export type StreamClient =
+  | 'ANDROID'
+  | 'IOS'
+  | 'TV_EMBEDDED'
+  | 'WEB_CREATOR'
+  | 'MWEB'
+  | 'WEB'
+  | 'WEB_EMBEDDED';
+
+export interface ClientStatus {
+  client: StreamClient;
+  /** False while the client is demoted after repeated failures */
+  healthy: boolean;
+  /** Consecutive failures since its last success */
+  failures: number;
+  /** Epoch ms when a demoted client is tried in its configured position again */
+  demotedUntil?: number;
+  lastError?: string;
+}
+
+/**
+ * Interface language (`hl`, e.g. `de` or `pt-BR`) and content region
+ * (`gl`, ISO 3166-1 alpha-2, e.g. `BR`). Unset fields leave the choice
+ * to YouTube.
+ */
+export interface SourceLocale {
+  language?: string;
+  region?: string;
+}
+
 export interface VideoPlaybackInfo {
   url: string;
   isDash: boolean;
@@ -107,11 +199,102 @@ export interface SubtitleTrack {
   id: string;
   label: string;
   language: string;
-  url: string;
+  /** Local file URI; absent until the track has been loaded */
+  url?: string;
   format: 'srt' | 'vtt' | 'ass' | 'ttml';
   isDefault?: boolean;
 }
 
+// ─── Radio ──────────────────────────────────────────────────────
+
+/** What an endless radio queue is built from. `id` is a content ID or browse ID. */
+export interface RadioSeed {
+  type: 'track' | 'playlist' | 'artist';
+  id: string;
+}
+
+export interface RadioPage {
+  items: MediaItem[];
+  /** Opaque cursor for the next batch; absent when the radio has ended */
+  continuation?: string;
+}
+
+export interface RadioOptions {
+  /** Content IDs to leave out, e.g. tracks already played or queued */
+  exclude?: string[];
+}
+
+// ─── Lyrics ─────────────────────────────────────────────────────
+
+export interface LyricLine {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds (usually the next line's start) */
+  end?: number;
+  text: string;
+}
+
+export interface Lyrics {
+  /** Full lyrics as plain text, one line per `\n` */
+  text: string;
+  /** Attribution shown under the lyrics, e.g. "Source: LyricFind" */
+  source?: string;
+  /** Time-synced lines, when the provider has them */
+  lines?: LyricLine[];
+}
+
+// ─── Chapters ───────────────────────────────────────────────────
+
+export interface Chapter {
+  title: string;
+  /** Seconds from the start of the video */
+  start: number;
+  /** Start of the next chapter, or the video's end; absent when unknown */
+  end?: number;
+}
+
+// ─── Skip Segments ──────────────────────────────────────────────
+
+/** SponsorBlock category names */
+export type SkipSegmentCategory =
+  | 'sponsor'
+  | 'selfpromo'
+  | 'interaction'
+  | 'intro'
+  | 'outro'
+  | 'preview'
+  | 'music_offtopic'
+  | 'filler';
+
+/** A span of a track the player may skip over. Times are in seconds. */
+export interface SkipSegment {
+  start: number;
+  end: number;
+  category: SkipSegmentCategory;
+  /** Provider ID of the segment, if any */
+  id?: string;
+}
+
+// ─── Search ─────────────────────────────────────────────────────
+
+export type SearchFilter = 'all' | 'songs' | 'videos' | 'albums' | 'artists' | 'playlists' | 'podcasts' | 'episodes';
+
+export interface SearchOptions {
+  /** Restrict results to one kind of content (default: `all`) */
+  filter?: SearchFilter;
+}
+
+export interface SearchResult {
+  /** Playable results (songs, videos) */
+  items: MediaItem[];
+  /** Browsable results (albums, artists, playlists) */
+  collections: MediaFeedItem[];
+  /** Opaque cursor for the next page; absent on the last page */
+  continuation?: string;
+  /** Fetch the next page; absent on the last page */
+  loadMore?(): Promise<SearchResult>;
+}
+
 // ─── Feed & Browse ──────────────────────────────────────────────
 
 export interface MediaFeedSection {
@@ -134,6 +317,22 @@ export interface MediaFeedItem {
   rating?: string;
 }
 
+// ─── Play History ───────────────────────────────────────────────
+
+export interface PlayHistoryEntry {
+  item: MediaItem;
+  /** Epoch ms of the most recent play */
+  lastPlayedAt: number;
+  playCount: number;
+}
+
+export interface PlayHistoryPage {
+  /** Most recently played first */
+  entries: PlayHistoryEntry[];
+  /** Cursor for the next page; absent on the last page */
+  continuation?: string;
+}
+
 // ─── Collections ────────────────────────────────────────────────
 
 export interface MediaCollection {
@@ -142,9 +341,42 @@ export interface MediaCollection {
   thumbnail: string;
   backdrop?: string;
   description?: string;
-  collectionType?: 'playlist' | 'album' | 'season' | 'series' | 'category';
+  collectionType?: 'playlist' | 'album' | 'artist' | 'season' | 'series' | 'category';
+  /** Browse ID to open this collection with `getCollection` (set on unloaded child entries) */
+  browseId?: string;
   items: MediaItem[];
   children?: MediaCollection[];
+  /** Cursor for `getCollectionMore`; present when `items` is not the whole collection */
+  continuation?: string;
+}
+
+export interface CollectionPage {
+  items: MediaItem[];
+  /** Cursor for the next page; absent on the last page */
+  continuation?: string;
+}
+
+// ─── Account ────────────────────────────────────────────────────
+
+/** Device-code sign-in prompt: the user visits `verificationUrl` and enters `userCode`. */
+export interface SignInChallenge {
+  userCode: string;
+  verificationUrl: string;
+  /** Epoch ms after which the code can no longer be redeemed */
+  expiresAt: number;
+  /** Minimum seconds between `pollSignIn` calls */
+  interval: number;
+}
+
+export type SignInStatus = 'pending' | 'signed_in' | 'expired' | 'denied';
+
+export type TrackRating = 'like' | 'dislike' | 'none';
+
+export interface AccountInfo {
+  name: string;
+  /** Channel handle or byline, e.g. "@someone" */
+  handle?: string;
+  photo?: string;
 }
 
 // ─── Download ───────────────────────────────────────────────────
@@ -153,5 +385,69 @@ export interface DownloadInfo {
   url: string;
   contentLength: number;
   headers?: Record<string, string>;
+  /** Epoch ms after which `url` stops working */
+  expiresAt?: number;
+  /** Container/codec of the stream, e.g. `audio/mp4; codecs="mp4a.40.2"` */
+  mimeType?: string;
 }
 
+export type DownloadState = 'queued' | 'downloading' | 'completed' | 'failed';
+
+/** An entry in the source's offline download queue. */
+export interface DownloadTask {
+  contentId: string;
+  item: MediaItem;
+  state: DownloadState;
+  /** Progress of the current attempt, 0–1 */
+  progress: number;
+  /** Audio file path (relative to the document directory) once known */
+  path?: string;
+  /** Metadata sidecar path written on completion */
+  metadataPath?: string;
+  /** Size of the audio file being downloaded, once known */
+  contentLength?: number;
+  /** Bytes already saved by an unfinished download; it resumes from here */
+  downloadedBytes?: number;
+  attempts: number;
+  error?: string;
+  /** Browse ID of the album/playlist this download belongs to */
+  collectionId?: string;
+  addedAt: number;
+  updatedAt: number;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────
+
+/**
+ * Why a source call failed:
+ * - `NETWORK` — request failed or the service had a server error
+ * - `UNAVAILABLE` — content removed, private or not playable
+ * - `AGE_RESTRICTED` — needs age verification
+ * - `LOGIN_REQUIRED` — needs a signed-in account
+ * - `GEO_BLOCKED` — not available in the user's region
+ * - `RATE_LIMITED` — throttled or bot-checked by the service
+ * - `PARSE` — the response had an unexpected shape
+ * - `CANCELLED` — the caller aborted the request
+ */
+export type SourceErrorCode =
+  | 'NETWORK'
+  | 'UNAVAILABLE'
+  | 'AGE_RESTRICTED'
+  | 'LOGIN_REQUIRED'
+  | 'GEO_BLOCKED'
+  | 'RATE_LIMITED'
+  | 'PARSE'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+/**
+ * Shape of errors thrown by source methods. Bundles cannot share classes
+ * with the app, so check `code` rather than `instanceof`.
+ */
+export interface SourceError extends Error {
+  code: SourceErrorCode;
+  /** Retrying later without user action may succeed */
+  retryable: boolean;
+  /** Human-readable reason from the service, when it gave one */
+  reason?: string;
+}
@@ -5,17 +5,43 @@
  * Sources are standalone JS bundles that export a factory function:
  *
  *   export default function createSource(host: SourceHost): MediaSource { ... }
+ *
+ * Async methods reject with a `SourceError` so the app can show an
+ * actionable message (age restriction, region block, offline, ...).
  */
 
 import type {
   MediaCapabilities,
   MediaItem,
   AudioPlaybackInfo,
+  AudioQualityPreference,
+  AudioFormatInfo,
+  BatchResolveOptions,
+  BatchResolveResult,
+  StreamClient,
+  ClientStatus,
+  SourceLocale,
   VideoPlaybackInfo,
   MediaFeedSection,
   MediaCollection,
+  PlayHistoryPage,
+  CollectionPage,
   SubtitleTrack,
+  Lyrics,
+  RadioSeed,
+  RadioPage,
+  RadioOptions,
+  Chapter,
+  SkipSegment,
+  SkipSegmentCategory,
+  SearchOptions,
+  SearchResult,
+  SignInChallenge,
+  SignInStatus,
+  AccountInfo,
+  TrackRating,
   DownloadInfo,
+  DownloadTask,
 } from './media';
 
 export interface MediaSource {
@@ -34,16 +60,54 @@ export interface MediaSource {
   getAudioUrl(contentId: string): Promise<AudioPlaybackInfo>;
   getDirectAudioUrl(contentId: string): Promise<AudioPlaybackInfo>;
   getDownloadInfo(contentId: string): Promise<DownloadInfo>;
+  /**
+   * Resolve many content IDs at once (e.g. to pre-buffer the play queue)
+   * with bounded concurrency. Never rejects; each item reports its own
+   * success or failure, in input order.
+   */
+  resolveBatch?(contentIds: string[], options?: BatchResolveOptions): Promise<BatchResolveResult[]>;
+  /**
+   * Re-resolve playback info for a content ID. Without `force` a still-valid
+   * cached URL may be returned; pass `force` after a 403 to discard it.
+   */
+  refreshAudioUrl?(contentId: string, options?: { force?: boolean }): Promise<AudioPlaybackInfo>;
+  getAudioFormats?(contentId: string): Promise<AudioFormatInfo[]>;
+  getAudioQuality?(): AudioQualityPreference;
+  setAudioQuality?(preference: AudioQualityPreference): void;
+  /** Client fallback order in effect, with demoted clients last. */
+  getClientChain?(): ClientStatus[];
+  /** Override the client fallback order; `null` restores the default and clears health data. */
+  setClientChain?(clients: StreamClient[] | null): void;
+  /**
+   * Ordered sources for the player script used to decipher stream URLs:
+   * URL templates containing `{player_id}`, or `youtube` to fetch the
+   * script from YouTube directly. `null` restores the default.
+   */
+  getPlayerMirrors?(): string[];
+  setPlayerMirrors?(mirrors: string[] | null): void;
 
   // ─── Video ──────────────────────────────────────────────────
 
+  /** Rejects with a `SourceError` when the video cannot be played; never resolves `null`. */
   getVideoInfo?(contentId: string): Promise<VideoPlaybackInfo | null>;
+  /**
+   * Resolves `null` when the video has no stream at `height`; rejects with a
+   * `SourceError` when the video itself cannot be loaded.
+   */
   getVideoUrlForQuality?(contentId: string, height: number): Promise<{ url: string; hasAudio: boolean } | null>;
   getFilteredHlsUrl?(height: number): string | null;
 
+  // ─── Locale ─────────────────────────────────────────────────
+
+  getLocale?(): SourceLocale;
+  /** Applies to every later request; `null` restores YouTube's default. */
+  setLocale?(locale: SourceLocale | null): void;
+
   // ─── Search ─────────────────────────────────────────────────
 
   search?(query: string): Promise<MediaItem[]>;
+  searchPage?(query: string, options?: SearchOptions): Promise<SearchResult>;
+  searchMore?(continuation: string): Promise<SearchResult>;
   getSearchSuggestions?(query: string): Promise<string[]>;
 
   // ─── Feed ───────────────────────────────────────────────────
@@ -52,20 +116,125 @@ export interface MediaSource {
 
   // ─── Collections ────────────────────────────────────────────
 
+  /**
+   * The collection with long playlists followed through their pages, up to
+   * a page limit (thousands of items). Past that limit `continuation` is
+   * set; fetch the rest with `getCollectionMore`.
+   */
   getCollection?(browseId: string): Promise<MediaCollection>;
+  /**
+   * Only the first page, so it can be shown right away. `continuation` is
+   * set when more items follow; fetch them with `getCollectionMore`.
+   */
+  getCollectionPage?(browseId: string): Promise<MediaCollection>;
+  getCollectionMore?(continuation: string): Promise<CollectionPage>;
 
   // ─── Suggestions ────────────────────────────────────────────
 
   getSuggestions?(contentId: string): Promise<MediaItem[]>;
 
+  // ─── Radio ──────────────────────────────────────────────────
+
+  startRadio?(seed: RadioSeed, options?: RadioOptions): Promise<RadioPage>;
+  continueRadio?(continuation: string, options?: RadioOptions): Promise<RadioPage>;
+
+  // ─── Offline Downloads ──────────────────────────────────────
+
+  enqueueDownload?(item: MediaItem): DownloadTask;
+  /** Queue every track of an album or playlist. */
+  enqueueCollectionDownload?(browseId: string): Promise<DownloadTask[]>;
+  getDownloads?(): DownloadTask[];
+  retryDownload?(contentId: string): void;
+  /** Cancel (if active) and forget a download. Its audio file and sidecar are emptied. */
+  removeDownload?(contentId: string): void;
+  onDownloadsChanged?(callback: (tasks: DownloadTask[]) => void): () => void;
+  /**
+   * Write title/artist/album/cover art tags into an audio file saved from
+   * `getDownloadInfo` (m4a or webm). Needs host binary file access.
+   */
+  embedMetadata?(path: string, item: MediaItem): Promise<void>;
+
   // ─── Subtitles ──────────────────────────────────────────────
 
+  /**
+   * Caption tracks of a video. Only the default track is downloaded up
+   * front; the others have no `url` until loaded with `getSubtitleTrack`.
+   */
   getSubtitles?(contentId: string): Promise<SubtitleTrack[]>;
+  /** Download (or reuse) one track from `getSubtitles`, resolving with its `url` set. */
+  getSubtitleTrack?(contentId: string, trackId: string): Promise<SubtitleTrack>;
+  /** File format `getSubtitles` writes tracks in (default `vtt`). */
+  getSubtitleFormat?(): 'vtt' | 'srt';
+  /** Applies to the next `getSubtitles` call; `null` restores the default. */
+  setSubtitleFormat?(format: 'vtt' | 'srt' | null): void;
+
+  // ─── Lyrics ─────────────────────────────────────────────────
+
+  getLyrics?(contentId: string): Promise<Lyrics | null>;
+
+  // ─── Chapters ───────────────────────────────────────────────
+
+  /** Uploader chapters, or a tracklist parsed from the description; empty when there is neither. */
+  getChapters?(contentId: string): Promise<Chapter[]>;
+  /**
+   * Split a long upload (mix, full-album video) into one virtual track per
+   * chapter, each with `startOffset`/`endOffset`. Returns `[item]` when the
+   * video has no chapters.
+   */
+  expandChapters?(item: MediaItem): Promise<MediaItem[]>;
+
+  // ─── Skip Segments ──────────────────────────────────────────
+
+  /** Non-music or sponsor spans to skip, sorted by start time. Empty when none are known. */
+  getSkipSegments?(contentId: string, categories?: SkipSegmentCategory[]): Promise<SkipSegment[]>;
+  /** Base URL of the SponsorBlock-compatible server in use. */
+  getSkipSegmentsEndpoint?(): string;
+  /**
+   * Point lookups at another server (e.g. a local one); `null` restores the
+   * default. Throws a `SourceError` unless the URL is http(s).
+   */
+  setSkipSegmentsEndpoint?(endpoint: string | null): void;
+
+  // ─── Account ────────────────────────────────────────────────
+
+  beginSignIn?(): Promise<SignInChallenge>;
+  pollSignIn?(): Promise<SignInStatus>;
+  signOut?(): Promise<void>;
+  getAccountInfo?(): Promise<AccountInfo | null>;
+
+  // ─── Library (requires sign-in) ─────────────────────────────
+
+  getLibrary?(): Promise<MediaFeedSection[]>;
+  rateTrack?(contentId: string, rating: TrackRating): Promise<void>;
+  /** Returns the browse ID of the new playlist. */
+  createPlaylist?(title: string, contentIds?: string[]): Promise<string>;
+  deletePlaylist?(browseId: string): Promise<void>;
+  addToPlaylist?(browseId: string, contentIds: string[]): Promise<void>;
+  removeFromPlaylist?(browseId: string, contentIds: string[]): Promise<void>;
+  /** Move `contentId` so it directly follows `afterContentId`. */
+  movePlaylistItem?(browseId: string, contentId: string, afterContentId: string): Promise<void>;
+
+  // ─── Play History ───────────────────────────────────────────
+
+  /**
+   * Record that playback of `item` started. Feeds the local history and
+   * the "Recently played" / "Most played" sections of `getHomeFeed`.
+   */
+  reportPlay?(item: MediaItem): void;
+  getPlayHistory?(options?: { limit?: number; continuation?: string }): PlayHistoryPage;
+  /** Forget entries by `MediaItem.id`. */
+  removeFromPlayHistory?(ids: string[]): void;
+  clearPlayHistory?(): void;
 
   // ─── Watch Progress ─────────────────────────────────────────
 
+  /** Call periodically during playback; positions near the end clear the saved one. */
   reportProgress?(contentId: string, positionSeconds: number, durationSeconds: number): void;
+  /** Position (seconds) to resume from, 0 when there is none. */
   getWatchProgress?(contentId: string): number;
+  /** Whether progress is also reported to the signed-in account's watch history (off by default). */
+  getWatchHistorySync?(): boolean;
+  setWatchHistorySync?(enabled: boolean): void;
 }
 
 export type SourceFactory = (host: import('./host').SourceHost) => MediaSource;